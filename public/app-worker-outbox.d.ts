@@ -0,0 +1,22 @@
+// Typings for app-worker-outbox.js, so app-worker.spec.ts can check it against the app.
+import { OutboxItem } from '../src/app/core/models';
+import { RetryConfig } from '../src/app/core/utils/retry.utils';
+
+declare const appWorkerOutbox: {
+  readonly DB_NAME: string;
+  readonly SYNC_TAG: string;
+  readonly TEMP_ID_PREFIX: string;
+  readonly OUTBOX_SYNC_LOCK: string;
+  readonly OUTBOX_PAUSED_KEY: string;
+  readonly OUTBOX_ORDER_INDEX: string;
+  readonly RETRY_CONFIG: RetryConfig;
+  handleBackgroundSync(): Promise<void>;
+  getAll<T>(db: IDBDatabase, storeName: string): Promise<T[]>;
+  rewriteItemId(item: OutboxItem, tempId: string, serverId: string): OutboxItem;
+  rewriteItemVersion(item: OutboxItem, resourceUrl: string, version: number): OutboxItem;
+  getBlockingKey(item: OutboxItem): string;
+  calculateBackoffDelay(attempt: number): number;
+  isRetryableStatus(status: number): boolean;
+};
+
+export = appWorkerOutbox;
@@ -0,0 +1,529 @@
+// Outbox drain used by app-worker.js. It is a separate script so that app-worker.spec.ts
+// can load the same code the worker runs; see app-worker-outbox.d.ts for its surface.
+// The outbox, syncConflicts, idMappings and attachments record shapes must stay in step
+// with the models in src/app/core/models and the logic in SyncService.
+(function (root, factory) {
+  if (typeof module === 'object' && module.exports) {
+    module.exports = factory();
+  } else {
+    root.appWorkerOutbox = factory();
+  }
+})(self, function () {
+  const DB_NAME = 'offline-first-db';
+  const SYNC_TAG = 'outbox-sync';
+  const TEMP_ID_PREFIX = 'tmp-';
+  // Same Web Lock name as OUTBOX_SYNC_LOCK in tab-coordination.service.ts.
+  const OUTBOX_SYNC_LOCK = 'offline-first-outbox-sync';
+  // Same sync meta key as OUTBOX_PAUSED_KEY in sync.service.ts.
+  const OUTBOX_PAUSED_KEY = 'outbox-paused';
+
+  // Mirrors DEFAULT_RETRY_CONFIG in src/app/core/utils/retry.utils.ts.
+  const RETRY_CONFIG = {
+    maxAttempts: 5,
+    baseDelayMs: 2000,
+    maxDelayMs: 5 * 60 * 1000,
+  };
+  // Outbox index SyncService reads the queue through, so both send in the same order.
+  const OUTBOX_ORDER_INDEX = 'by-order';
+
+  async function handleBackgroundSync() {
+    // Any open tab can sync, including one this worker does not control yet, and only a
+    // tab can read sealed items, so hand the work over instead of racing it.
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows.forEach(function (client) {
+        client.postMessage({ type: 'SYNC_REQUESTED' });
+      });
+      return;
+    }
+
+    const db = await openDatabase();
+    if (!db) {
+      return;
+    }
+
+    try {
+      const result = await drainOutboxExclusive(db);
+      if (!result) {
+        console.log('🔒 [SW SYNC] Outbox is being synced elsewhere - skipping');
+        return;
+      }
+      console.log('✅ [SW SYNC] Completed:', result);
+
+      if (result.networkFailure) {
+        // Rejecting makes the browser reschedule the sync event.
+        throw new Error('Network unavailable during background sync');
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  function openDatabase() {
+    return new Promise(function (resolve, reject) {
+      const request = indexedDB.open(DB_NAME);
+      request.onupgradeneeded = function () {
+        // The app has never created the database; leave schema creation to it.
+        request.transaction.abort();
+      };
+      request.onsuccess = function () {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('outbox')) {
+          db.close();
+          resolve(null);
+          return;
+        }
+        resolve(db);
+      };
+      request.onerror = function () {
+        if (request.error && request.error.name === 'AbortError') {
+          resolve(null);
+          return;
+        }
+        reject(request.error);
+      };
+    });
+  }
+
+  function promisify(request) {
+    return new Promise(function (resolve, reject) {
+      request.onsuccess = function () {
+        resolve(request.result);
+      };
+      request.onerror = function () {
+        reject(request.error);
+      };
+    });
+  }
+
+  function getAll(db, storeName) {
+    if (!db.objectStoreNames.contains(storeName)) {
+      return Promise.resolve([]);
+    }
+    const store = db.transaction(storeName).objectStore(storeName);
+    const indexName = [OUTBOX_ORDER_INDEX, 'by-timestamp'].find(function (name) {
+      return store.indexNames.contains(name);
+    });
+    const source = indexName ? store.index(indexName) : store;
+    return promisify(source.getAll());
+  }
+
+  async function isOutboxPaused(db) {
+    if (!db.objectStoreNames.contains('syncMeta')) {
+      return false;
+    }
+    const store = db.transaction('syncMeta').objectStore('syncMeta');
+    const meta = await promisify(store.get(OUTBOX_PAUSED_KEY));
+    return !!(meta && meta.value);
+  }
+
+  function putRecord(db, storeName, value) {
+    return promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+  }
+
+  function addRecord(db, storeName, value) {
+    return promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).add(value));
+  }
+
+  function deleteRecord(db, storeName, key) {
+    return promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+  }
+
+  function replaceId(value, fromId, toId) {
+    if (value === fromId) {
+      return toId;
+    }
+    if (Array.isArray(value)) {
+      return value.map(function (entry) {
+        return replaceId(entry, fromId, toId);
+      });
+    }
+    if (value && typeof value === 'object') {
+      const result = {};
+      Object.keys(value).forEach(function (key) {
+        result[key] = replaceId(value[key], fromId, toId);
+      });
+      return result;
+    }
+    return value;
+  }
+
+  function rewriteItemId(item, tempId, serverId) {
+    return Object.assign({}, item, {
+      url: item.url
+        .split('/')
+        .map(function (segment) {
+          return segment === tempId ? serverId : segment;
+        })
+        .join('/'),
+      payload: replaceId(item.payload, tempId, serverId),
+    });
+  }
+
+  // Mirrors rewriteOutboxItemVersion in src/app/core/utils/outbox.utils.ts.
+  function rewriteItemVersion(item, resourceUrl, version) {
+    if (item.method === 'POST' || getBlockingKey(item) !== resourceUrl) {
+      return item;
+    }
+    const payload = item.payload;
+    const isObject = !!payload && typeof payload === 'object' && !Array.isArray(payload);
+    const hasVersion = isObject && payload.version !== undefined;
+    return Object.assign({}, item, {
+      ifMatch: item.ifMatch ? '"' + version + '"' : item.ifMatch,
+      payload: hasVersion ? Object.assign({}, payload, { version: version }) : payload,
+    });
+  }
+
+  function referencesAny(value, ids) {
+    if (typeof value === 'string') {
+      return ids.has(value);
+    }
+    if (Array.isArray(value)) {
+      return value.some(function (entry) {
+        return referencesAny(entry, ids);
+      });
+    }
+    if (value && typeof value === 'object') {
+      return Object.keys(value).some(function (key) {
+        return referencesAny(value[key], ids);
+      });
+    }
+    return false;
+  }
+
+  function getBlockingKey(item) {
+    if (item.method !== 'POST') {
+      return item.url;
+    }
+    const id = item.payload && item.payload.id;
+    return id ? item.url + '/' + id : item.url;
+  }
+
+  function calculateBackoffDelay(attempt) {
+    const exponential = RETRY_CONFIG.baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0));
+    const capped = Math.min(exponential, RETRY_CONFIG.maxDelayMs);
+    const half = capped / 2;
+    return Math.round(half + Math.random() * half);
+  }
+
+  function isRetryableStatus(status) {
+    return status === 0 || status >= 500 || status === 408 || status === 429;
+  }
+
+  // No tab is open to read sealed items, so ask the user to open one. ngsw-worker.js handles
+  // the click; the tab sends the queue as soon as it is unlocked.
+  function remindToUnlock(count) {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') {
+      console.log('🔒 [SW SYNC] Outbox is encrypted - leaving it for the app');
+      return Promise.resolve();
+    }
+    return self.registration.showNotification('Changes waiting to sync', {
+      body:
+        count === 1
+          ? '1 change will be sent when you open the app and unlock it.'
+          : count + ' changes will be sent when you open the app and unlock it.',
+      tag: SYNC_TAG,
+      data: { onActionClick: { default: { operation: 'focusLastFocusedOrOpen', url: '' } } },
+    });
+  }
+
+  function drainOutboxExclusive(db) {
+    if (!self.navigator.locks) {
+      return drainOutbox(db);
+    }
+    return self.navigator.locks.request(OUTBOX_SYNC_LOCK, { ifAvailable: true }, function (lock) {
+      return lock ? drainOutbox(db) : null;
+    });
+  }
+
+  async function drainOutbox(db) {
+    const now = Date.now();
+    const items = await getAll(db, 'outbox');
+    const blocked = new Set();
+    // Versions written during this run, by resource URL.
+    const versions = new Map();
+    const result = { synced: 0, conflicts: 0, retried: 0, networkFailure: false };
+
+    if (await isOutboxPaused(db)) {
+      console.log('⏸️ [SW SYNC] Outbox is paused - skipping');
+      return result;
+    }
+
+    // Encrypted items can only be read with the key held by an unlocked tab.
+    const isSealed = items.some(function (item) {
+      return !!item.sealed;
+    });
+    if (isSealed) {
+      await remindToUnlock(items.length);
+      return result;
+    }
+
+    items.forEach(function (item) {
+      if (item.nextRetryAt && item.nextRetryAt > now) {
+        blocked.add(getBlockingKey(item));
+      }
+    });
+
+    // Only the app uploads attachments, so items pointing at one still pending must wait for it.
+    const attachments = await getAll(db, 'attachments');
+    const pendingAttachments = new Set(
+      attachments
+        .filter(function (attachment) {
+          return attachment.status === 'pending' || attachment.status === 'uploading';
+        })
+        .map(function (attachment) {
+          return attachment.id;
+        })
+    );
+
+    for (const original of items) {
+      const waiting = original.nextRetryAt && original.nextRetryAt > now;
+      if (waiting || blocked.has(getBlockingKey(original))) {
+        continue;
+      }
+      if (referencesAny(original.payload, pendingAttachments)) {
+        blocked.add(getBlockingKey(original));
+        continue;
+      }
+
+      const mappings = await getAll(db, 'idMappings');
+      const resolved = mappings.reduce(function (resolved, mapping) {
+        return rewriteItemId(resolved, mapping.tempId, mapping.serverId);
+      }, original);
+      const version = versions.get(getBlockingKey(resolved));
+      const item =
+        version === undefined ? resolved : rewriteItemVersion(resolved, resolved.url, version);
+
+      let response;
+      try {
+        response = await sendItem(item);
+      } catch (error) {
+        result.networkFailure = true;
+        await scheduleRetry(db, item, error.message || 'Network error');
+        break;
+      }
+
+      if (response.ok) {
+        await deleteRecord(db, 'outbox', item.id);
+        const body = await response.json().catch(function () {
+          return null;
+        });
+        await recordServerId(db, item, body);
+        await recordServerVersion(db, item, body, versions);
+        result.synced++;
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status)) {
+        const body = await response.json().catch(function () {
+          return null;
+        });
+        await moveToSyncConflicts(db, item, 'HTTP ' + response.status, {
+          status: response.status,
+          serverVersion: body && body.current ? body.current : undefined,
+        });
+        result.conflicts++;
+        continue;
+      }
+
+      await scheduleRetry(db, item, 'HTTP ' + response.status);
+      blocked.add(getBlockingKey(item));
+      result.retried++;
+    }
+
+    await notifyClients({ type: 'OUTBOX_SYNCED', result: result });
+    return result;
+  }
+
+  // Mirrors buildOutboxRequest in src/app/core/utils/outbox-request.utils.ts.
+  function sendItem(item) {
+    const headers = new Headers();
+    const storedHeaders = item.headers || {};
+    Object.keys(storedHeaders).forEach(function (name) {
+      storedHeaders[name].forEach(function (value) {
+        headers.append(name, value);
+      });
+    });
+    if (item.ifMatch) {
+      headers.set('If-Match', item.ifMatch);
+    }
+    if (item.idempotencyKey) {
+      headers.set('Idempotency-Key', item.idempotencyKey);
+    }
+
+    const bodyType = item.bodyType || (item.method === 'DELETE' ? 'none' : 'json');
+    const body = deserializeBody(item.payload, bodyType);
+    if (bodyType === 'json' && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+
+    const init = { method: item.method, headers: headers };
+    if (body !== null) {
+      init.body = body;
+    }
+    if (item.withCredentials) {
+      init.credentials = 'include';
+    }
+    return fetch(buildUrl(item.url, item.params), init);
+  }
+
+  function buildUrl(url, params) {
+    const search = new URLSearchParams();
+    Object.keys(params || {}).forEach(function (name) {
+      params[name].forEach(function (value) {
+        search.append(name, value);
+      });
+    });
+    const query = search.toString();
+    return query ? url + (url.indexOf('?') === -1 ? '?' : '&') + query : url;
+  }
+
+  function deserializeBody(payload, bodyType) {
+    switch (bodyType) {
+      case 'none':
+        return null;
+      case 'text':
+        return payload;
+      case 'url-search-params':
+        return new URLSearchParams(payload);
+      case 'arraybuffer':
+        return fromBase64(payload).buffer;
+      case 'blob':
+        return deserializeBlob(payload);
+      case 'form-data': {
+        const form = new FormData();
+        payload.forEach(function (entry) {
+          if (typeof entry[1] === 'string') {
+            form.append(entry[0], entry[1]);
+          } else {
+            form.append(entry[0], deserializeBlob(entry[1]), entry[1].name);
+          }
+        });
+        return form;
+      }
+      default:
+        return JSON.stringify(payload);
+    }
+  }
+
+  function deserializeBlob(serialized) {
+    const bytes = fromBase64(serialized.base64);
+    return serialized.name !== undefined
+      ? new File([bytes], serialized.name, { type: serialized.type })
+      : new Blob([bytes], { type: serialized.type });
+  }
+
+  function fromBase64(value) {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  async function recordServerId(db, item, body) {
+    const tempId = item.payload && item.payload.id;
+    const isTempId = typeof tempId === 'string' && tempId.startsWith(TEMP_ID_PREFIX);
+    if (item.method !== 'POST' || !isTempId || !body || !body.id) {
+      return;
+    }
+
+    const serverId = String(body.id);
+    await putRecord(db, 'idMappings', {
+      tempId: tempId,
+      serverId: serverId,
+      timestamp: Date.now(),
+    });
+
+    const remaining = await getAll(db, 'outbox');
+    for (const pending of remaining) {
+      const rewritten = rewriteItemId(pending, tempId, serverId);
+      if (JSON.stringify(rewritten) !== JSON.stringify(pending)) {
+        await putRecord(db, 'outbox', rewritten);
+      }
+    }
+  }
+
+  async function recordServerVersion(db, item, body, versions) {
+    const version = body && body.version;
+    if ((item.method !== 'PUT' && item.method !== 'PATCH') || typeof version !== 'number') {
+      return;
+    }
+
+    versions.set(item.url, version);
+    const remaining = await getAll(db, 'outbox');
+    for (const pending of remaining) {
+      const rewritten = rewriteItemVersion(pending, item.url, version);
+      if (JSON.stringify(rewritten) !== JSON.stringify(pending)) {
+        await putRecord(db, 'outbox', rewritten);
+      }
+    }
+  }
+
+  async function scheduleRetry(db, item, lastError) {
+    const attempts = (item.attempts || 0) + 1;
+
+    if (attempts >= RETRY_CONFIG.maxAttempts) {
+      await moveToSyncConflicts(db, item, 'Gave up after ' + attempts + ' attempts: ' + lastError);
+      return;
+    }
+
+    await putRecord(
+      db,
+      'outbox',
+      Object.assign({}, item, {
+        attempts: attempts,
+        lastError: lastError,
+        nextRetryAt: Date.now() + calculateBackoffDelay(attempts),
+      })
+    );
+  }
+
+  async function moveToSyncConflicts(db, item, error, details) {
+    await addRecord(
+      db,
+      'syncConflicts',
+      Object.assign(
+        {
+          url: item.url,
+          method: item.method,
+          payload: item.payload,
+          headers: item.headers,
+          params: item.params,
+          responseType: item.responseType,
+          bodyType: item.bodyType,
+          withCredentials: item.withCredentials,
+          timestamp: item.timestamp,
+          error: error,
+        },
+        details || {}
+      )
+    );
+    await deleteRecord(db, 'outbox', item.id);
+  }
+
+  async function notifyClients(message) {
+    const clients = await self.clients.matchAll({ includeUncontrolled: true });
+    clients.forEach(function (client) {
+      client.postMessage(message);
+    });
+  }
+
+  return {
+    DB_NAME: DB_NAME,
+    SYNC_TAG: SYNC_TAG,
+    TEMP_ID_PREFIX: TEMP_ID_PREFIX,
+    OUTBOX_SYNC_LOCK: OUTBOX_SYNC_LOCK,
+    OUTBOX_PAUSED_KEY: OUTBOX_PAUSED_KEY,
+    OUTBOX_ORDER_INDEX: OUTBOX_ORDER_INDEX,
+    RETRY_CONFIG: RETRY_CONFIG,
+    handleBackgroundSync: handleBackgroundSync,
+    getAll: getAll,
+    rewriteItemId: rewriteItemId,
+    rewriteItemVersion: rewriteItemVersion,
+    getBlockingKey: getBlockingKey,
+    calculateBackoffDelay: calculateBackoffDelay,
+    isRetryableStatus: isRetryableStatus,
+  };
+});
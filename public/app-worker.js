@@ -0,0 +1,18 @@
+// Service worker entry point. Wraps the Angular service worker and adds
+// Background Sync so the IndexedDB outbox drains even after the app is closed.
+// The drain itself lives in app-worker-outbox.js. While a tab is open the worker hands
+// sync over to it. Sealed items (encryption at rest is on by default) can only be read
+// by an unlocked tab, so with no tab open the worker shows a notification that opens one.
+importScripts('./ngsw-worker.js', './app-worker-outbox.js');
+
+self.addEventListener('sync', function (event) {
+  if (event.tag === self.appWorkerOutbox.SYNC_TAG) {
+    event.waitUntil(self.appWorkerOutbox.handleBackgroundSync());
+  }
+});
+
+self.addEventListener('periodicsync', function (event) {
+  if (event.tag === self.appWorkerOutbox.SYNC_TAG) {
+    event.waitUntil(self.appWorkerOutbox.handleBackgroundSync());
+  }
+});
@@ -6,6 +6,7 @@ import { routes } from './app.routes';
 import { provideServiceWorker } from '@angular/service-worker';
 import { IndexedDbService } from './core/services/indexed-db.service';
 import { SyncService } from './core/services/sync.service';
+import { CacheMaintenanceService } from './core/services/cache-maintenance.service';
 import { HTTP_INTERCEPTORS } from '@angular/common/http';
 import { OfflineInterceptor } from './core/interceptors/offline.interceptor';
 import { ApiInterceptor } from './core/services/api.service';
@@ -15,29 +16,35 @@ export const appConfig: ApplicationConfig = {
     provideBrowserGlobalErrorListeners(),
     provideRouter(routes),
     provideHttpClient(withInterceptorsFromDi()),
-    provideServiceWorker('ngsw-worker.js', {
+    provideServiceWorker('app-worker.js', {
       enabled: !isDevMode(),
       registrationStrategy: 'registerWhenStable:30000'
     }),
+    // OfflineInterceptor runs first so the mock API sits where the network would,
+    // and transport failures from it can fall back to the outbox and cache.
     {
       provide: HTTP_INTERCEPTORS,
-      useClass: ApiInterceptor,
+      useClass: OfflineInterceptor,
       multi: true
     },
     {
       provide: HTTP_INTERCEPTORS,
-      useClass: OfflineInterceptor,
+      useClass: ApiInterceptor,
       multi: true
     },
     {
       provide: APP_INITIALIZER,
       useFactory: () => {
         const indexedDb = inject(IndexedDbService);
+        const cacheMaintenance = inject(CacheMaintenanceService);
         return () => {
-          return indexedDb.init().catch((err) => {
-            console.error('Failed to initialize IndexedDB:', err);
-            return Promise.resolve();
-          });
+          // Opening the database waits for the unlock screen, so it must not hold up bootstrap.
+          indexedDb
+            .init()
+            .then(() => cacheMaintenance.start())
+            .catch((err) => {
+              console.error('Failed to initialize IndexedDB:', err);
+            });
         };
       },
       multi: true
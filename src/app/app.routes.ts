@@ -5,6 +5,21 @@ export const routes: Routes = [
     path: '',
     loadComponent: () => import('./demo/demo.component').then(m => m.DemoComponent)
   },
+  {
+    path: 'conflicts',
+    loadComponent: () =>
+      import('./conflicts/conflicts.component').then(m => m.ConflictsComponent)
+  },
+  {
+    path: 'outbox',
+    loadComponent: () =>
+      import('./outbox/outbox.component').then(m => m.OutboxComponent)
+  },
+  {
+    path: 'security',
+    loadComponent: () =>
+      import('./security/security.component').then(m => m.SecurityComponent)
+  },
   {
     path: 'session-notes',
     redirectTo: '',
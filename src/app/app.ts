@@ -1,12 +1,24 @@
 import { Component, signal } from '@angular/core';
-import { RouterOutlet } from '@angular/router';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { RouterOutlet, RouterLink } from '@angular/router';
+import { EncryptionService } from './core/services/encryption.service';
+import { UnlockComponent } from './unlock/unlock.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, RouterLink, UnlockComponent],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
 export class App {
   protected readonly title = signal('offline-first-app');
+  protected readonly encryptionState;
+
+  constructor(private encryption: EncryptionService) {
+    this.encryptionState = toSignal(encryption.state$, { initialValue: encryption.state });
+  }
+
+  protected lock(): void {
+    this.encryption.lock();
+  }
 }
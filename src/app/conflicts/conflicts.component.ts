@@ -0,0 +1,93 @@
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { ConflictDetail, ConflictFieldChoice } from '../core/models';
+import { ConflictResolutionService } from '../core/services/conflict-resolution.service';
+import { LoggerService } from '../core/services/logger.service';
+import { formatTimestamp } from '../core/utils/date.utils';
+import { describeError } from '../core/utils/log.utils';
+
+type FieldChoices = Record<string, ConflictFieldChoice>;
+
+@Component({
+  selector: 'app-conflicts',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './conflicts.component.html',
+  styleUrl: './conflicts.component.css',
+})
+export class ConflictsComponent implements OnInit {
+  details: ConflictDetail[] = [];
+  choices: Record<number, FieldChoices> = {};
+  isLoading = false;
+
+  constructor(
+    private conflictResolution: ConflictResolutionService,
+    private logger: LoggerService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.loadConflicts();
+  }
+
+  async loadConflicts(): Promise<void> {
+    this.isLoading = true;
+    try {
+      this.details = await this.conflictResolution.getConflictDetails();
+      this.resetChoices();
+    } catch (error) {
+      this.logger.error('CONFLICT', 'Could not load sync conflicts', {
+        error: describeError(error),
+      });
+      this.details = [];
+    }
+    this.isLoading = false;
+    this.cdr.detectChanges();
+  }
+
+  private resetChoices(): void {
+    const choices: Record<number, FieldChoices> = {};
+    this.details.forEach(function (detail) {
+      if (detail.conflict.id) {
+        choices[detail.conflict.id] = {};
+      }
+    });
+    this.choices = choices;
+  }
+
+  async keepMine(detail: ConflictDetail): Promise<void> {
+    await this.conflictResolution.keepMine(detail);
+    await this.loadConflicts();
+  }
+
+  async keepTheirs(detail: ConflictDetail): Promise<void> {
+    await this.conflictResolution.keepTheirs(detail.conflict);
+    await this.loadConflicts();
+  }
+
+  async merge(detail: ConflictDetail): Promise<void> {
+    await this.conflictResolution.merge(detail, this.choices[detail.conflict.id!] || {});
+    await this.loadConflicts();
+  }
+
+  canMerge(detail: ConflictDetail): boolean {
+    return !!detail.serverVersion && !!detail.localVersion && detail.conflict.method !== 'DELETE';
+  }
+
+  getFieldValue(record: unknown, field: string): unknown {
+    if (!record || typeof record !== 'object') {
+      return undefined;
+    }
+    return (record as Record<string, unknown>)[field];
+  }
+
+  formatTimestamp(timestamp: number): string {
+    return formatTimestamp(timestamp);
+  }
+
+  trackByConflictId(index: number, detail: ConflictDetail): number | undefined {
+    return detail.conflict.id;
+  }
+}
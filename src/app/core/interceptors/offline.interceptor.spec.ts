@@ -0,0 +1,116 @@
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { NEVER, Observable, firstValueFrom, throwError } from 'rxjs';
+import { OutboxItem } from '../models';
+import { BackgroundSyncService } from '../services/background-sync.service';
+import { IndexedDbService } from '../services/indexed-db.service';
+import { LoggerService } from '../services/logger.service';
+import { OfflineDetectionService } from '../services/offline-detection.service';
+import { UserContextService } from '../services/user-context.service';
+import { DEFAULT_CACHE_POLICIES } from '../utils/cache-policy.utils';
+import { IDEMPOTENCY_KEY_HEADER } from '../utils/http.utils';
+import { OfflineInterceptor } from './offline.interceptor';
+
+const offlineDetection = {
+  isOnline: true,
+  reportRequestSuccess: () => {},
+  reportRequestFailure: () => {},
+} as unknown as OfflineDetectionService;
+
+const backgroundSync = {
+  requestSync: () => Promise.resolve(false),
+} as unknown as BackgroundSyncService;
+
+describe('OfflineInterceptor online mutations', () => {
+  let outbox: Omit<OutboxItem, 'id'>[];
+  let sent: HttpRequest<any>[];
+  let interceptor: OfflineInterceptor;
+
+  beforeEach(() => {
+    outbox = [];
+    sent = [];
+    const indexedDb = {
+      addToOutbox: (item: Omit<OutboxItem, 'id'>) => {
+        outbox.push(item);
+        return Promise.resolve(outbox.length);
+      },
+    } as unknown as IndexedDbService;
+
+    interceptor = new OfflineInterceptor(
+      indexedDb,
+      offlineDetection,
+      {} as UserContextService,
+      backgroundSync,
+      new LoggerService([]),
+      DEFAULT_CACHE_POLICIES,
+      '50u'
+    );
+  });
+
+  // Records what reached the server and answers with `response$`.
+  function send(
+    response$: Observable<HttpEvent<any>>,
+    request: HttpRequest<any> = new HttpRequest('PUT', '/api/session-notes/1', { id: '1' })
+  ): Promise<HttpEvent<any>> {
+    const next: HttpHandler = {
+      handle: (req) => {
+        sent.push(req);
+        return response$;
+      },
+    };
+    return firstValueFrom(interceptor.intercept(request, next));
+  }
+
+  function failWith(status: number): Observable<never> {
+    return throwError(() => new HttpErrorResponse({ status, url: '/api/session-notes/1' }));
+  }
+
+  it('should queue the write when the request fails on the network', async () => {
+    const response = (await send(failWith(0))) as HttpResponse<any>;
+
+    expect(response.status).toBe(200);
+    expect(outbox.length).toBe(1);
+    expect(outbox[0]).toEqual(
+      expect.objectContaining({ method: 'PUT', url: '/api/session-notes/1' })
+    );
+  });
+
+  it('should queue the write when the server does not answer in time', async () => {
+    const response = (await send(NEVER)) as HttpResponse<any>;
+
+    expect(response.status).toBe(200);
+    expect(outbox.length).toBe(1);
+  });
+
+  it('should pass server errors through without queueing', async () => {
+    await expect(send(failWith(409))).rejects.toMatchObject({ status: 409 });
+    await expect(send(failWith(500))).rejects.toMatchObject({ status: 500 });
+
+    expect(outbox).toEqual([]);
+  });
+
+  it('should replay a queued write with the idempotency key the server already saw', async () => {
+    await send(failWith(0));
+
+    const key = sent[0].headers.get(IDEMPOTENCY_KEY_HEADER);
+    expect(key).toBeTruthy();
+    expect(outbox[0].idempotencyKey).toBe(key);
+  });
+
+  it('should keep an idempotency key set by the caller', async () => {
+    const request = new HttpRequest('DELETE', '/api/session-notes/1', null, {
+      headers: new HttpHeaders({ [IDEMPOTENCY_KEY_HEADER]: 'key-1' }),
+    });
+
+    await send(failWith(0), request);
+
+    expect(sent[0].headers.get(IDEMPOTENCY_KEY_HEADER)).toBe('key-1');
+    expect(outbox[0].idempotencyKey).toBe('key-1');
+  });
+});
@@ -1,21 +1,78 @@
-import { Injectable } from '@angular/core';
+import { Injectable, InjectionToken, Inject } from '@angular/core';
 import {
   HttpInterceptor,
   HttpRequest,
   HttpHandler,
   HttpEvent,
   HttpResponse,
+  HttpContextToken,
 } from '@angular/common/http';
-import { Observable, from } from 'rxjs';
+import { Observable, from, of, throwError, TimeoutError } from 'rxjs';
+import { switchMap, timeout, catchError, tap } from 'rxjs/operators';
 import { IndexedDbService } from '../services/indexed-db.service';
 import { OfflineDetectionService } from '../services/offline-detection.service';
-import { isMutationMethod, isGetMethod, HTTP_STATUS } from '../utils/http.utils';
+import { UserContextService } from '../services/user-context.service';
+import { BackgroundSyncService } from '../services/background-sync.service';
+import { LoggerService } from '../services/logger.service';
+import {
+  isMutationMethod,
+  isGetMethod,
+  isNetworkError,
+  HTTP_STATUS,
+  HTTP_METHODS,
+  IDEMPOTENCY_KEY_HEADER,
+} from '../utils/http.utils';
+import {
+  generateTempId,
+  generateIdempotencyKey,
+  findTempIdInUrl,
+  findTempIdsInValue,
+  replaceIdInUrl,
+  replaceIdInValue,
+} from '../utils/id.utils';
+import { applyPendingMutations, hasPendingMutations } from '../utils/outbox.utils';
+import {
+  CachePolicy,
+  DEFAULT_CACHE_POLICIES,
+  findCachePolicy,
+  isCacheItemExpired,
+  parseDuration,
+} from '../utils/cache-policy.utils';
+import { buildCacheKey } from '../utils/cache-key.utils';
+import { SerializedRequest, serializeRequest } from '../utils/outbox-request.utils';
+import { findEntityForUrl } from '../utils/entity.utils';
+import {
+  applyPendingMutationsToPage,
+  findIndexForField,
+  hasQueryParams,
+  parseRecordQuery,
+} from '../utils/query.utils';
+import { describeError } from '../utils/log.utils';
+
+export const CACHE_POLICIES = new InjectionToken<CachePolicy[]>('CACHE_POLICIES', {
+  providedIn: 'root',
+  factory: () => DEFAULT_CACHE_POLICIES,
+});
+
+// How long an online mutation may take before it is queued in the outbox instead.
+export const MUTATION_TIMEOUT = new InjectionToken<string>('MUTATION_TIMEOUT', {
+  providedIn: 'root',
+  factory: () => '15s',
+});
+
+// Set by SyncService so replayed outbox items are sent as-is instead of queued again.
+export const SKIP_OUTBOX = new HttpContextToken<boolean>(() => false);
 
 @Injectable()
 export class OfflineInterceptor implements HttpInterceptor {
   constructor(
     private indexedDb: IndexedDbService,
-    private offlineDetection: OfflineDetectionService
+    private offlineDetection: OfflineDetectionService,
+    private userContext: UserContextService,
+    private backgroundSync: BackgroundSyncService,
+    private logger: LoggerService,
+    @Inject(CACHE_POLICIES) private cachePolicies: CachePolicy[],
+    @Inject(MUTATION_TIMEOUT) private mutationTimeout: string
   ) {}
 
   intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
@@ -23,36 +80,232 @@ export class OfflineInterceptor implements HttpInterceptor {
     const isMutation = isMutationMethod(req.method);
     const isGet = isGetMethod(req.method);
 
+    if (isMutation && req.context.get(SKIP_OUTBOX)) {
+      return this.trackConnectivity(next.handle(req));
+    }
+
     if (!isOnline && isMutation) {
-      console.log('🔴 [OFFLINE] Intercepting mutation:', req.method, req.url);
+      this.logger.info('OFFLINE', 'Intercepting mutation', { method: req.method, url: req.url });
       return from(this.handleOfflineMutation(req));
     }
 
-    if (!isOnline && isGet) {
-      return from(this.handleOfflineGet(req));
+    if (isOnline && isMutation && this.findTempIds(req).length > 0) {
+      return this.handleTempIdRequest(req, next);
+    }
+
+    if (isMutation) {
+      return this.handleOnlineMutation(req, next);
     }
 
-    if (isOnline && isGet) {
-      return this.handleOnlineGet(req, next);
+    if (isGet) {
+      return this.handleGet(req, next, isOnline);
     }
 
-    return next.handle(req);
+    return this.trackConnectivity(next.handle(req));
+  }
+
+  // The browser can report online while the request never reaches the server.
+  // The key is attached up front so a write that did land is not applied twice.
+  private handleOnlineMutation(
+    req: HttpRequest<any>,
+    next: HttpHandler
+  ): Observable<HttpEvent<any>> {
+    const keyedReq = req.headers.has(IDEMPOTENCY_KEY_HEADER)
+      ? req
+      : req.clone({ setHeaders: { [IDEMPOTENCY_KEY_HEADER]: generateIdempotencyKey() } });
+
+    const self = this;
+    return this.trackConnectivity(
+      next.handle(keyedReq).pipe(timeout({ first: parseDuration(this.mutationTimeout) }))
+    ).pipe(
+      catchError(function (error) {
+        if (!isNetworkError(error)) {
+          return throwError(function () {
+            return error;
+          });
+        }
+        self.logger.warn('OFFLINE', 'Request failed, queueing mutation', {
+          method: req.method,
+          url: req.url,
+          error: describeError(error),
+        });
+        return from(self.handleOfflineMutation(keyedReq));
+      })
+    );
+  }
+
+  private trackConnectivity(request$: Observable<HttpEvent<any>>): Observable<HttpEvent<any>> {
+    const self = this;
+    return request$.pipe(
+      tap({
+        next: function (event) {
+          if (event instanceof HttpResponse) {
+            self.offlineDetection.reportRequestSuccess();
+          }
+        },
+        error: function (error) {
+          if (isNetworkError(error)) {
+            self.offlineDetection.reportRequestFailure();
+          }
+        },
+      })
+    );
+  }
+
+  private handleGet(
+    req: HttpRequest<any>,
+    next: HttpHandler,
+    isOnline: boolean
+  ): Observable<HttpEvent<any>> {
+    const policy = findCachePolicy(req.url, this.cachePolicies);
+    const self = this;
+
+    switch (policy.strategy) {
+      case 'network-only':
+        return this.trackConnectivity(next.handle(req));
+
+      case 'cache-only':
+        return from(this.handleOfflineGet(req, policy));
+
+      case 'cache-first':
+        return from(this.getCachedResponse(req, policy)).pipe(
+          switchMap(function (cached) {
+            if (cached) {
+              return of(cached);
+            }
+            return isOnline
+              ? self.handleOnlineGet(req, next, policy)
+              : from(self.handleOfflineGet(req, policy));
+          })
+        );
+
+      case 'stale-while-revalidate':
+        return from(this.getCachedResponse(req, policy)).pipe(
+          switchMap(function (cached) {
+            if (!cached) {
+              return isOnline
+                ? self.handleOnlineGet(req, next, policy)
+                : from(self.handleOfflineGet(req, policy));
+            }
+            if (isOnline) {
+              self.revalidate(req, next, policy);
+            }
+            return of(cached);
+          })
+        );
+
+      default:
+        return isOnline
+          ? this.handleNetworkFirstGet(req, next, policy)
+          : from(this.handleOfflineGet(req, policy));
+    }
+  }
+
+  private handleNetworkFirstGet(
+    req: HttpRequest<any>,
+    next: HttpHandler,
+    policy: CachePolicy
+  ): Observable<HttpEvent<any>> {
+    const network$ = this.handleOnlineGet(req, next, policy);
+    if (!policy.timeout) {
+      return network$;
+    }
+
+    const self = this;
+    return network$.pipe(
+      timeout({ each: parseDuration(policy.timeout) }),
+      catchError(function (error) {
+        if (!(error instanceof TimeoutError)) {
+          return throwError(function () {
+            return error;
+          });
+        }
+        self.logger.warn('CACHE', 'Network timed out, serving cache', { url: req.url });
+        self.offlineDetection.reportRequestFailure();
+        return from(self.handleOfflineGet(req, policy));
+      })
+    );
+  }
+
+  private revalidate(req: HttpRequest<any>, next: HttpHandler, policy: CachePolicy): void {
+    const self = this;
+    this.handleOnlineGet(req, next, policy).subscribe({
+      error: function (err) {
+        self.logger.error('CACHE', 'Failed to revalidate cached response', {
+          url: req.url,
+          error: describeError(err),
+        });
+      },
+    });
+  }
+
+  // Temp ids in the URL or body (a note pointing at an attachment still being
+  // uploaded) only mean something once the sync has mapped them to server ids.
+  private findTempIds(req: HttpRequest<any>): string[] {
+    const urlTempId = findTempIdInUrl(req.url);
+    const bodyTempIds = findTempIdsInValue(req.body);
+    return urlTempId ? [urlTempId, ...bodyTempIds] : bodyTempIds;
+  }
+
+  private handleTempIdRequest(
+    req: HttpRequest<any>,
+    next: HttpHandler
+  ): Observable<HttpEvent<any>> {
+    const tempIds = this.findTempIds(req);
+    const self = this;
+
+    return from(this.indexedDb.getIdMappings()).pipe(
+      switchMap(function (mappings) {
+        const serverIds = new Map<string, string>();
+        mappings.forEach(function (mapping) {
+          serverIds.set(mapping.tempId, mapping.serverId);
+        });
+
+        const unsynced = tempIds.filter(function (tempId) {
+          return !serverIds.has(tempId);
+        });
+        if (unsynced.length > 0) {
+          self.logger.info('OFFLINE', 'Temp ID not synced yet, queueing', {
+            method: req.method,
+            url: req.url,
+            tempIds: unsynced,
+          });
+          return from(self.handleOfflineMutation(req));
+        }
+
+        let url = req.url;
+        let body = req.body;
+        tempIds.forEach(function (tempId) {
+          url = replaceIdInUrl(url, tempId, serverIds.get(tempId)!);
+          body = replaceIdInValue(body, tempId, serverIds.get(tempId)!);
+        });
+        return self.intercept(req.clone({ url, body }), next);
+      })
+    );
   }
 
   private async handleOfflineMutation(req: HttpRequest<any>): Promise<HttpEvent<any>> {
+    const serialized = await serializeRequest(req);
+    const payload = this.createOutboxPayload(req, serialized);
     const outboxItem = {
+      ...serialized,
       url: req.url,
       method: req.method,
-      payload: req.body || {},
+      payload,
       timestamp: Date.now(),
+      ifMatch: req.headers.get('If-Match') || undefined,
+      idempotencyKey: req.headers.get(IDEMPOTENCY_KEY_HEADER) || generateIdempotencyKey(),
     };
 
     const outboxId = await this.indexedDb.addToOutbox(outboxItem);
-    console.log('✅ [OUTBOX] Queued for sync:', req.method, req.url, '| ID:', outboxId);
-
-    const responseBody = this.createOfflineMutationResponse(req.method, req.body);
+    this.logger.record('enqueue', 'OUTBOX', 'Queued for sync', {
+      method: req.method,
+      url: req.url,
+      outboxId,
+    });
+    this.backgroundSync.requestSync();
 
-    console.log('✅ [RESPONSE] Returning optimistic 200 response');
+    const responseBody = this.createOfflineMutationResponse(req.method, payload);
     return new HttpResponse({
       status: HTTP_STATUS.OK,
       statusText: 'OK',
@@ -60,6 +313,22 @@ export class OfflineInterceptor implements HttpInterceptor {
     });
   }
 
+  // JSON creates get a temp id so later edits and deletes can refer to them before sync.
+  private createOutboxPayload(req: HttpRequest<any>, serialized: SerializedRequest): any {
+    const payload = serialized.payload;
+    const isJsonObject =
+      serialized.bodyType === 'json' &&
+      !!payload &&
+      typeof payload === 'object' &&
+      !Array.isArray(payload);
+
+    if (req.method === HTTP_METHODS.POST && isJsonObject && !payload.id) {
+      return { ...payload, id: generateTempId() };
+    }
+
+    return payload;
+  }
+
   private createOfflineMutationResponse(method: string, body: any): any {
     if (method === 'POST') {
       return {
@@ -69,7 +338,7 @@ export class OfflineInterceptor implements HttpInterceptor {
       };
     }
 
-    if (method === 'PUT') {
+    if (method === 'PUT' || method === 'PATCH') {
       return {
         success: true,
         message: 'Updated offline, will sync when online',
@@ -90,16 +359,88 @@ export class OfflineInterceptor implements HttpInterceptor {
     };
   }
 
-  private async handleOfflineGet(req: HttpRequest<any>): Promise<HttpEvent<any>> {
-    const cachedData = await this.indexedDb.getCached(req.url);
+  private async handleOfflineGet(
+    req: HttpRequest<any>,
+    policy: CachePolicy
+  ): Promise<HttpEvent<any>> {
+    const cached = await this.getCachedResponse(req, policy);
+    if (cached) {
+      return cached;
+    }
+
+    const localQuery = await this.queryLocalStore(req);
+    if (localQuery) {
+      return localQuery;
+    }
 
-    if (cachedData) {
-      return this.createCachedResponse(cachedData);
+    const outboxItems = await this.indexedDb.getOutbox();
+    if (hasPendingMutations(req.url, outboxItems)) {
+      return this.createCachedResponse(applyPendingMutations(req.url, [], outboxItems));
     }
 
     return this.createServiceUnavailableResponse();
   }
 
+  // Filtered and paged list requests rarely repeat exactly, so instead of relying
+  // on a cached copy they are answered from the entity's own store.
+  private async queryLocalStore(req: HttpRequest<any>): Promise<HttpResponse<any> | null> {
+    const entity = findEntityForUrl(req.url);
+    if (!entity || req.url !== entity.basePath || !hasQueryParams(req.params)) {
+      return null;
+    }
+
+    const query = parseRecordQuery(entity, req.params);
+    if (!findIndexForField(entity, query.orderBy)) {
+      return null;
+    }
+
+    const page = await this.indexedDb.queryRecords(entity, query);
+    const outboxItems = await this.indexedDb.getOutbox();
+    // Param values carry client names and search terms, so only their names are logged.
+    this.logger.info('OFFLINE', 'Answered query from local store', {
+      url: req.url,
+      params: req.params.keys(),
+    });
+    return this.createCachedResponse(
+      applyPendingMutationsToPage(entity, query, page, outboxItems)
+    );
+  }
+
+  private async getCachedResponse(
+    req: HttpRequest<any>,
+    policy: CachePolicy
+  ): Promise<HttpResponse<any> | null> {
+    const cacheItem = await this.indexedDb.getCachedItem(this.getCacheKey(req, policy));
+
+    if (!cacheItem || isCacheItemExpired(cacheItem, policy, Date.now())) {
+      this.logger.record(
+        'cache-miss',
+        'CACHE',
+        'Cache miss',
+        { url: req.url, policy: policy.name, expired: !!cacheItem },
+        'debug'
+      );
+      return null;
+    }
+
+    this.logger.record(
+      'cache-hit',
+      'CACHE',
+      'Cache hit',
+      { url: req.url, policy: policy.name, ageMs: Date.now() - cacheItem.timestamp },
+      'debug'
+    );
+
+    if (Array.isArray(cacheItem.data)) {
+      const outboxItems = await this.indexedDb.getOutbox();
+      return this.createCachedResponse(
+        applyPendingMutations(req.url, cacheItem.data, outboxItems)
+      );
+    }
+
+    return this.createCachedResponse(cacheItem.data);
+  }
+
   private createCachedResponse(data: any): HttpResponse<any> {
     return new HttpResponse({
       status: HTTP_STATUS.OK,
@@ -116,11 +457,15 @@ export class OfflineInterceptor implements HttpInterceptor {
     });
   }
 
-  private handleOnlineGet(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+  private handleOnlineGet(
+    req: HttpRequest<any>,
+    next: HttpHandler,
+    policy: CachePolicy
+  ): Observable<HttpEvent<any>> {
     const self = this;
     const HttpResponseClass = HttpResponse;
-    return new Observable(function (observer) {
-      next.handle(req).subscribe({
+    return new Observable<HttpEvent<any>>(function (observer) {
+      return self.trackConnectivity(next.handle(req)).subscribe({
         next: function (event) {
           const isHttpResponse =
             HttpResponseClass &&
@@ -130,9 +475,7 @@ export class OfflineInterceptor implements HttpInterceptor {
             event && typeof event === 'object' && 'status' in event && 'body' in event;
 
           if ((isHttpResponse || hasResponseProperties) && event.status === HTTP_STATUS.OK) {
-            self.indexedDb.cacheGet(req.url, event.body).catch(function (err) {
-              console.error('Failed to cache response:', err);
-            });
+            self.cacheResponse(req, event.body, policy);
           }
           observer.next(event);
         },
@@ -143,6 +486,45 @@ export class OfflineInterceptor implements HttpInterceptor {
           observer.complete();
         },
       });
-    });
+    }).pipe(
+      catchError(function (error) {
+        if (!isNetworkError(error)) {
+          return throwError(function () {
+            return error;
+          });
+        }
+        self.logger.warn('OFFLINE', 'Request failed, serving cache', {
+          url: req.url,
+          error: describeError(error),
+        });
+        return from(self.handleOfflineGet(req, policy));
+      })
+    );
+  }
+
+  private getCacheKey(req: HttpRequest<any>, policy: CachePolicy): string {
+    return buildCacheKey(req, this.userContext.currentUser, policy.varyHeaders);
+  }
+
+  private async cacheResponse(
+    req: HttpRequest<any>,
+    data: any,
+    policy: CachePolicy
+  ): Promise<void> {
+    try {
+      await this.indexedDb.cacheGet(this.getCacheKey(req, policy), data, {
+        policy: policy.name,
+        url: req.url,
+        scope: this.userContext.cacheScope,
+      });
+      if (policy.maxEntries) {
+        await this.indexedDb.trimCachePolicy(policy.name, policy.maxEntries);
+      }
+    } catch (err) {
+      this.logger.error('CACHE', 'Failed to cache response', {
+        url: req.url,
+        error: describeError(err),
+      });
+    }
   }
 }
@@ -0,0 +1,44 @@
+// What a note stores about each of its files. The id is a temp id until the
+// upload finishes, then the sync rewrites it to the server's id.
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+// 'failed' uploads are given up on, so records referencing them are no longer held back.
+export type AttachmentStatus = 'pending' | 'uploading' | 'uploaded' | 'failed';
+
+// Local upload state; the bytes live separately in AttachmentData.
+export interface Attachment extends AttachmentRef {
+  status: AttachmentStatus;
+  uploadId?: string;
+  uploadedBytes: number;
+  serverId?: string;
+  attempts?: number;
+  nextRetryAt?: number;
+  lastError?: string;
+  timestamp: number;
+}
+
+export interface AttachmentData {
+  id: string;
+  // Base64, so the bytes can be sealed like any other record.
+  data: string;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  offset: number;
+  // Present once the last chunk has been received.
+  attachment?: AttachmentRef;
+}
+
+// Mock server copy of an upload in progress or a finished attachment.
+export interface ServerAttachment extends AttachmentRef {
+  offset: number;
+  chunks: string[];
+  complete: boolean;
+  timestamp: number;
+}
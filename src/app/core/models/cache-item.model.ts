@@ -1,5 +1,10 @@
 export interface CacheItem {
   key: string;
+  url?: string;
+  scope?: string;
   data: any;
   timestamp: number;
+  policy?: string;
+  lastAccessed?: number;
+  size?: number;
 }
@@ -0,0 +1,6 @@
+
+export interface DataChange {
+  store: string;
+  source: 'local' | 'remote';
+  timestamp: number;
+}
@@ -0,0 +1,15 @@
+import { OfflineEntity } from './offline-entity.model';
+
+export interface EntityChange<T extends OfflineEntity = OfflineEntity> {
+  seq?: number;
+  store: string;
+  type: 'upsert' | 'delete';
+  id: string;
+  record?: T;
+  timestamp: number;
+}
+
+export interface EntityChangeFeed<T extends OfflineEntity = OfflineEntity> {
+  changes: EntityChange<T>[];
+  cursor: number;
+}
@@ -0,0 +1,21 @@
+export interface EntityDefinition<S extends string = string> {
+  // Kebab-case name used for cache policies and the sync cursor.
+  name: string;
+  // Literal store name, so IndexedDbService can type the store from ENTITY_DEFINITIONS.
+  storeName: S;
+  keyPath: string;
+  // Index name to key path, as created by the entity's migration step.
+  indexes: Record<string, string>;
+  basePath: string;
+  // Fields the list endpoint can filter on, range-filter on and search.
+  // Only indexed fields stay readable when encrypted, so the rest are matched after decryption.
+  query?: {
+    filterFields: string[];
+    rangeField?: string;
+    searchFields: string[];
+  };
+  // Fields the conflicts page lets the user take from either their copy or the server's.
+  mergeableFields?: string[];
+  // Server-side defaults the mock API fills in when a client omits them on create.
+  createDefaults?: () => Record<string, unknown>;
+}
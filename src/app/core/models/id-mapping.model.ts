@@ -0,0 +1,6 @@
+
+export interface IdMapping {
+  tempId: string;
+  serverId: string;
+  timestamp: number;
+}
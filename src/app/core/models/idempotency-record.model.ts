@@ -0,0 +1,9 @@
+export interface IdempotencyRecord {
+  key: string;
+  method: string;
+  url: string;
+  status: number;
+  body: any;
+  etag?: string;
+  timestamp: number;
+}
@@ -1,5 +1,17 @@
 export * from './outbox-item.model';
 export * from './sync-conflict.model';
 export * from './cache-item.model';
+export * from './offline-entity.model';
+export * from './entity-definition.model';
 export * from './session-note.model';
+export * from './attachment.model';
+export * from './id-mapping.model';
+export * from './user-context.model';
+export * from './data-change.model';
+export * from './entity-change.model';
+export * from './record-query.model';
+export * from './sync-meta.model';
+export * from './sync-status.model';
+export * from './log-entry.model';
+export * from './idempotency-record.model';
 
@@ -0,0 +1,25 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Events the sync metrics are computed from. Anything else is logged as 'message'.
+export type LogEvent =
+  | 'enqueue'
+  | 'sync-start'
+  | 'sync-complete'
+  | 'item-success'
+  | 'item-retry'
+  | 'conflict'
+  | 'cache-hit'
+  | 'cache-miss'
+  | 'message';
+
+export interface LogEntry {
+  id?: number;
+  level: LogLevel;
+  // Area that wrote the entry, such as 'SYNC', 'OFFLINE', 'API' or 'DB'.
+  source: string;
+  event: LogEvent;
+  message: string;
+  // Identifiers, counts and timings only; never record contents.
+  data?: Record<string, any>;
+  timestamp: number;
+}
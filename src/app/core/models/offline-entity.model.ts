@@ -0,0 +1,9 @@
+// Fields every synced entity carries, so the outbox, cache and change feed
+// can treat all entities alike.
+export interface OfflineEntity {
+  id: string;
+  timestamp: number;
+  version?: number;
+  updatedAt?: number;
+  pending?: boolean;
+}
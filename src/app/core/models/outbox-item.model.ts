@@ -1,8 +1,35 @@
-export interface OutboxItem {
+export type OutboxBodyType =
+  | 'json'
+  | 'text'
+  | 'blob'
+  | 'arraybuffer'
+  | 'form-data'
+  | 'url-search-params'
+  | 'none';
+
+export type OutboxResponseType = 'json' | 'text' | 'blob' | 'arraybuffer';
+
+// What is needed beyond url, method and payload to rebuild the original HttpRequest.
+// Non-JSON payloads are stored in a JSON-safe form described by `bodyType`.
+export interface OutboxRequestOptions {
+  headers?: Record<string, string[]>;
+  params?: Record<string, string[]>;
+  responseType?: OutboxResponseType;
+  bodyType?: OutboxBodyType;
+  withCredentials?: boolean;
+}
+
+export interface OutboxItem extends OutboxRequestOptions {
   id?: number;
   url: string;
   method: string;
   payload: any;
   timestamp: number;
+  // Position in the queue. Starts as the enqueue time and changes when the queue is reordered.
+  order?: number;
+  ifMatch?: string;
+  idempotencyKey?: string;
+  attempts?: number;
+  lastError?: string;
+  nextRetryAt?: number;
 }
-
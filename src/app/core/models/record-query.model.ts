@@ -0,0 +1,34 @@
+export type SortDirection = 'asc' | 'desc';
+
+export interface RecordQuery {
+  // Field to order by; it must have an index in the entity definition.
+  orderBy: string;
+  direction: SortDirection;
+  // Inclusive bounds on an indexed field.
+  range?: { field: string; from?: string; to?: string };
+  // Exact, case-insensitive matches on unindexed fields.
+  equals?: Record<string, string>;
+  // Case-insensitive substring search over the entity's search fields.
+  search?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface QueryPage<T> {
+  items: T[];
+  // Opaque token for the next page, or null on the last page.
+  nextCursor: string | null;
+}
+
+// Query string accepted by an entity's list endpoint. Other keys filter on the
+// entity's `filterFields`.
+export interface ListQueryParams {
+  q?: string;
+  from?: string;
+  to?: string;
+  sort?: string;
+  order?: SortDirection;
+  limit?: number;
+  cursor?: string;
+  [filter: string]: string | number | undefined;
+}
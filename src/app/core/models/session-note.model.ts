@@ -1,8 +1,9 @@
-export interface SessionNote {
-  id: string;
+import { AttachmentRef } from './attachment.model';
+import { OfflineEntity } from './offline-entity.model';
+
+export interface SessionNote extends OfflineEntity {
   clientName: string;
   note: string;
-  timestamp: number;
   shiftDate: string;
+  attachments?: AttachmentRef[];
 }
-
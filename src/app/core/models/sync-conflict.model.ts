@@ -1,9 +1,24 @@
-export interface SyncConflict {
+import { OutboxRequestOptions } from './outbox-item.model';
+import { OfflineEntity } from './offline-entity.model';
+
+export interface SyncConflict extends OutboxRequestOptions {
   id?: number;
   url: string;
   method: string;
-  payload: any;
+  // The rejected request body, in the same form as OutboxItem.payload.
+  payload: unknown;
   timestamp: number;
   error: string;
+  status?: number;
+  serverVersion?: OfflineEntity;
 }
 
+export type ConflictFieldChoice = 'mine' | 'theirs';
+
+export interface ConflictDetail {
+  conflict: SyncConflict;
+  // The entity's mergeableFields; empty when the URL matches no entity.
+  fields: string[];
+  localVersion: unknown;
+  serverVersion: OfflineEntity | null;
+}
@@ -0,0 +1,6 @@
+
+export interface SyncMeta {
+  key: string;
+  value: any;
+  timestamp: number;
+}
@@ -0,0 +1,17 @@
+export type SyncPhase = 'idle' | 'pushing' | 'pulling' | 'paused' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  // Progress through the outbox items sent in the current run.
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  currentItem: { method: string; url: string } | null;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+  pendingCount: number;
+  conflictCount: number;
+}
+
+// The part of SyncStatus kept in sync meta so it survives a reload.
+export type PersistedSyncStatus = Pick<SyncStatus, 'lastSyncedAt' | 'lastError'>;
@@ -0,0 +1,5 @@
+
+export interface UserContext {
+  userId: string;
+  tenantId?: string;
+}
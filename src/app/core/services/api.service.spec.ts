@@ -0,0 +1,238 @@
+import { HttpHandler, HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { lastValueFrom } from 'rxjs';
+import { EntityDefinition, IdempotencyRecord, OfflineEntity, ServerAttachment } from '../models';
+import { ApiInterceptor } from './api.service';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { createChunkForm } from '../utils/attachment.utils';
+import { readBlob } from '../utils/outbox-request.utils';
+
+const BASE = '/api/session-notes';
+
+// In-memory stand-in for the parts of IndexedDbService the mock API touches.
+class FakeIndexedDb {
+  notes = new Map<string, OfflineEntity>();
+  records = new Map<string, IdempotencyRecord>();
+  attachments = new Map<string, ServerAttachment>();
+
+  async getAllRecords(): Promise<OfflineEntity[]> {
+    return Array.from(this.notes.values());
+  }
+
+  async getRecord(entity: EntityDefinition, id: string): Promise<OfflineEntity | null> {
+    return this.notes.get(id) || null;
+  }
+
+  async putRecord(entity: EntityDefinition, record: OfflineEntity): Promise<void> {
+    this.notes.set(record.id, record);
+  }
+
+  async deleteRecord(entity: EntityDefinition, id: string): Promise<void> {
+    this.notes.delete(id);
+  }
+
+  async appendServerChange(): Promise<number> {
+    return 1;
+  }
+
+  async getIdempotencyRecord(key: string): Promise<IdempotencyRecord | null> {
+    return this.records.get(key) || null;
+  }
+
+  async saveIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  async getServerAttachment(id: string): Promise<ServerAttachment | null> {
+    return this.attachments.get(id) || null;
+  }
+
+  async putServerAttachment(attachment: ServerAttachment): Promise<void> {
+    this.attachments.set(attachment.id, attachment);
+  }
+}
+
+const next: HttpHandler = {
+  handle: () => {
+    throw new Error('API requests should not reach the next handler');
+  },
+};
+
+function request(method: string, url: string, body: any, key?: string): HttpRequest<any> {
+  const headers = key ? new HttpHeaders({ 'Idempotency-Key': key }) : new HttpHeaders();
+  return new HttpRequest<any>(method, url, body, { headers });
+}
+
+function send(
+  interceptor: ApiInterceptor,
+  method: string,
+  url: string,
+  body: any,
+  key?: string
+): Promise<HttpResponse<any>> {
+  const req = request(method, url, body, key);
+  return lastValueFrom(interceptor.intercept(req, next)) as Promise<HttpResponse<any>>;
+}
+
+describe('ApiInterceptor idempotency', () => {
+  let db: FakeIndexedDb;
+  let interceptor: ApiInterceptor;
+
+  beforeEach(() => {
+    db = new FakeIndexedDb();
+    interceptor = new ApiInterceptor(db as unknown as IndexedDbService, new LoggerService([]));
+  });
+
+  it('should not create a duplicate note when a committed POST is replayed', async () => {
+    const body = { clientName: 'Ann', note: 'first' };
+
+    // The write commits but the client never sees the response (tab closed,
+    // connection dropped), so the outbox item stays and is sent again.
+    const original = await send(interceptor, 'POST', BASE, body, 'key-1');
+    const replayed = await send(interceptor, 'POST', BASE, body, 'key-1');
+
+    expect(db.notes.size).toBe(1);
+    expect(replayed.status).toBe(original.status);
+    expect(replayed.body).toEqual(original.body);
+    expect(replayed.headers.get('Idempotent-Replayed')).toBe('true');
+  });
+
+  it('should not bump the version twice when a committed PUT is replayed', async () => {
+    const created = await send(interceptor, 'POST', BASE, { clientName: 'Ann', note: 'a' });
+    const url = `${BASE}/${created.body.id}`;
+
+    const original = await send(interceptor, 'PUT', url, { note: 'b', version: 1 }, 'key-2');
+    const replayed = await send(interceptor, 'PUT', url, { note: 'b', version: 1 }, 'key-2');
+
+    expect(db.notes.get(created.body.id)?.version).toBe(2);
+    expect(replayed.status).toBe(200);
+    expect(replayed.body).toEqual(original.body);
+    expect(replayed.headers.get('ETag')).toBe(original.headers.get('ETag'));
+  });
+
+  it('should apply writes with different keys independently', async () => {
+    await send(interceptor, 'POST', BASE, { clientName: 'Ann', note: 'a' }, 'key-3');
+    await send(interceptor, 'POST', BASE, { clientName: 'Ann', note: 'a' }, 'key-4');
+
+    expect(db.notes.size).toBe(2);
+  });
+
+  it('should not remember rejected writes', async () => {
+    const created = await send(interceptor, 'POST', BASE, { clientName: 'Ann', note: 'a' });
+    const url = `${BASE}/${created.body.id}`;
+
+    const stale = request('PUT', url, { note: 'b', version: 7 }, 'key-5');
+
+    await expect(lastValueFrom(interceptor.intercept(stale, next))).rejects.toMatchObject({
+      status: 409,
+    });
+
+    expect(db.records.has('key-5')).toBe(false);
+  });
+});
+
+describe('ApiInterceptor version preconditions', () => {
+  let db: FakeIndexedDb;
+  let interceptor: ApiInterceptor;
+  let id: string;
+  let url: string;
+
+  function sendWithIfMatch(method: string, body: any, ifMatch: string) {
+    const req = new HttpRequest<any>(method, url, body, {
+      headers: new HttpHeaders({ 'If-Match': ifMatch }),
+    });
+    return lastValueFrom(interceptor.intercept(req, next)) as Promise<HttpResponse<any>>;
+  }
+
+  beforeEach(async () => {
+    db = new FakeIndexedDb();
+    interceptor = new ApiInterceptor(db as unknown as IndexedDbService, new LoggerService([]));
+    const created = await send(interceptor, 'POST', BASE, { clientName: 'Ann', note: 'a' });
+    id = created.body.id;
+    url = `${BASE}/${id}`;
+    // Someone else has already saved version 2.
+    await send(interceptor, 'PUT', url, { note: 'b' });
+  });
+
+  it('should reject a stale If-Match with 412', async () => {
+    await expect(sendWithIfMatch('PUT', { note: 'c' }, '"1"')).rejects.toMatchObject({
+      status: 412,
+    });
+    await expect(sendWithIfMatch('DELETE', null, '"1"')).rejects.toMatchObject({
+      status: 412,
+    });
+    expect(db.notes.get(id)?.version).toBe(2);
+  });
+
+  it('should reject a stale body version with 409 and the current record', async () => {
+    const current = db.notes.get(id);
+
+    await expect(send(interceptor, 'PUT', url, { note: 'c', version: 1 })).rejects.toMatchObject({
+      status: 409,
+      error: { current },
+    });
+  });
+
+  it('should apply a write whose ETag matches', async () => {
+    const response = await sendWithIfMatch('PUT', { note: 'c', version: 2 }, '"2"');
+
+    expect(response.status).toBe(200);
+    expect(response.body.version).toBe(3);
+    expect(response.headers.get('ETag')).toBe('"3"');
+  });
+});
+
+describe('ApiInterceptor attachment uploads', () => {
+  const UPLOADS = '/api/attachments/uploads';
+  let db: FakeIndexedDb;
+  let interceptor: ApiInterceptor;
+
+  function chunk(offset: number, text: string): FormData {
+    return createChunkForm(offset, new TextEncoder().encode(text), 'text/plain');
+  }
+
+  beforeEach(() => {
+    db = new FakeIndexedDb();
+    interceptor = new ApiInterceptor(db as unknown as IndexedDbService, new LoggerService([]));
+  });
+
+  it('should assemble chunks into a downloadable file', async () => {
+    const created = await send(interceptor, 'POST', UPLOADS, {
+      name: 'a.txt',
+      type: 'text/plain',
+      size: 6,
+    });
+    const url = `${UPLOADS}/${created.body.uploadId}`;
+
+    const first = await send(interceptor, 'POST', url, chunk(0, 'abc'));
+    const last = await send(interceptor, 'POST', url, chunk(3, 'def'));
+    const file = await send(interceptor, 'GET', `/api/attachments/${created.body.uploadId}`, null);
+
+    expect(first.body).toEqual({ uploadId: created.body.uploadId, offset: 3 });
+    expect(last.body.attachment).toEqual({
+      id: created.body.uploadId,
+      name: 'a.txt',
+      type: 'text/plain',
+      size: 6,
+    });
+    expect(new TextDecoder().decode(await readBlob(file.body))).toBe('abcdef');
+  });
+
+  it('should reject a chunk at the wrong offset with the offset to resume from', async () => {
+    const created = await send(interceptor, 'POST', UPLOADS, { name: 'a.txt', size: 6 });
+    const url = `${UPLOADS}/${created.body.uploadId}`;
+    await send(interceptor, 'POST', url, chunk(0, 'abc'));
+
+    await expect(send(interceptor, 'POST', url, chunk(0, 'abc'))).rejects.toMatchObject({
+      status: 409,
+      error: { offset: 3 },
+    });
+    expect((await send(interceptor, 'GET', url, null)).body.offset).toBe(3);
+  });
+
+  it('should answer 404 for an unknown upload so the client starts over', async () => {
+    await expect(send(interceptor, 'GET', `${UPLOADS}/missing`, null)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
@@ -1,74 +1,351 @@
 import { Injectable } from '@angular/core';
 import {
+  HttpErrorResponse,
   HttpEvent,
   HttpHandler,
+  HttpHeaders,
   HttpInterceptor,
   HttpRequest,
   HttpResponse,
 } from '@angular/common/http';
-import { Observable, of, delay, from } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
+import { Observable, of, delay, from, throwError } from 'rxjs';
+import { switchMap, concatMap, map } from 'rxjs/operators';
 import { IndexedDbService } from './indexed-db.service';
-import { SessionNote } from '../models';
-import { HTTP_STATUS, HTTP_METHODS } from '../utils/http.utils';
-import { isValidId } from '../utils/validation.utils';
-import { getTodayDateString } from '../utils/date.utils';
+import { LoggerService } from './logger.service';
+import {
+  EntityChange,
+  EntityChangeFeed,
+  EntityDefinition,
+  IdempotencyRecord,
+  OfflineEntity,
+  ServerAttachment,
+  UploadSession,
+} from '../models';
+import {
+  HTTP_STATUS,
+  HTTP_METHODS,
+  IDEMPOTENCY_KEY_HEADER,
+  extractIdFromUrl,
+  createEtag,
+  isMutationMethod,
+  isUpdateMethod,
+} from '../utils/http.utils';
+import {
+  ENTITY_DEFINITIONS,
+  findEntityForUrl,
+  getChangesPath,
+} from '../utils/entity.utils';
+import { findIndexForField, hasQueryParams, parseRecordQuery } from '../utils/query.utils';
+import { ATTACHMENTS_PATH, UPLOADS_PATH } from '../utils/attachment.utils';
+import { readBlob } from '../utils/outbox-request.utils';
+import { fromBase64, toBase64 } from '../utils/crypto.utils';
 
-const API_BASE_PATH = '/api/session-notes';
+// Fields the server owns; client values for them are ignored.
+const SERVER_FIELDS = ['id', 'timestamp', 'version', 'updatedAt', 'pending'];
 
 @Injectable()
 export class ApiInterceptor implements HttpInterceptor {
-  constructor(private indexedDb: IndexedDbService) {}
+  private lastCreatedId = 0;
+
+  constructor(
+    private indexedDb: IndexedDbService,
+    private logger: LoggerService
+  ) {}
 
   intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
     if (!this.isApiRequest(req.url)) {
       return next.handle(req);
     }
 
-    console.log('🔵 [API] Mock API request:', req.method, req.url);
+    this.logger.debug('API', 'Mock API request', { method: req.method, url: req.url });
+
+    const idempotencyKey = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (idempotencyKey && isMutationMethod(req.method)) {
+      return this.handleIdempotentRequest(req, idempotencyKey);
+    }
+
+    return this.routeRequest(req);
+  }
+
+  private routeRequest(req: HttpRequest<any>): Observable<HttpEvent<any>> {
+    if (req.url.startsWith(ATTACHMENTS_PATH + '/')) {
+      return this.routeAttachmentRequest(req);
+    }
+
+    const entity = findEntityForUrl(req.url, ENTITY_DEFINITIONS);
+    if (!entity) {
+      return this.createNotFoundResponse();
+    }
 
-    if (this.isGetSessionNotes(req)) {
-      return this.handleGetSessionNotes();
+    if (req.method === HTTP_METHODS.GET && req.url === entity.basePath) {
+      return hasQueryParams(req.params)
+        ? this.handleQuery(entity, req)
+        : this.handleList(entity);
     }
 
-    if (this.isPostSessionNotes(req)) {
-      return this.handlePostSessionNotes(req);
+    if (req.method === HTTP_METHODS.GET && req.url === getChangesPath(entity)) {
+      return this.handleGetChanges(entity, req);
     }
 
-    if (this.isPutSessionNote(req)) {
-      return this.handlePutSessionNote(req);
+    if (req.method === HTTP_METHODS.POST && req.url === entity.basePath) {
+      return this.handleCreate(entity, req);
     }
 
-    if (this.isDeleteSessionNote(req)) {
-      return this.handleDeleteSessionNote(req);
+    if (isUpdateMethod(req.method) && this.isRecordUrl(entity, req.url)) {
+      return this.handleUpdate(entity, req);
+    }
+
+    if (req.method === HTTP_METHODS.DELETE && this.isRecordUrl(entity, req.url)) {
+      return this.handleDelete(entity, req);
     }
 
     return this.createNotFoundResponse();
   }
 
-  private isApiRequest(url: string): boolean {
-    return url.startsWith('/api/');
+  // Resumable uploads: create a session, then send multipart chunks tagged with
+  // their offset. A client unsure what arrived asks for the session's offset.
+  private routeAttachmentRequest(req: HttpRequest<any>): Observable<HttpEvent<any>> {
+    if (req.method === HTTP_METHODS.POST && req.url === UPLOADS_PATH) {
+      return this.handleCreateUpload(req);
+    }
+
+    const id = extractIdFromUrl(req.url);
+    if (!id) {
+      return this.createNotFoundResponse();
+    }
+
+    if (req.url === UPLOADS_PATH + '/' + id) {
+      if (req.method === HTTP_METHODS.GET) {
+        return this.handleGetUpload(id);
+      }
+      if (req.method === HTTP_METHODS.POST) {
+        return this.handleUploadChunk(id, req.body);
+      }
+    }
+
+    if (req.method === HTTP_METHODS.GET && req.url === ATTACHMENTS_PATH + '/' + id) {
+      return this.handleGetAttachment(id);
+    }
+
+    return this.createNotFoundResponse();
+  }
+
+  private handleCreateUpload(req: HttpRequest<any>): Observable<HttpEvent<any>> {
+    const body = req.body || {};
+    if (!body.name || typeof body.size !== 'number' || body.size < 0) {
+      return this.createBadRequestResponse('Upload needs a name and size');
+    }
+
+    const now = Date.now();
+    const attachment: ServerAttachment = {
+      id: this.generateId(now),
+      name: body.name,
+      type: body.type || 'application/octet-stream',
+      size: body.size,
+      offset: 0,
+      chunks: [],
+      complete: body.size === 0,
+      timestamp: now,
+    };
+
+    const self = this;
+    return from(this.indexedDb.putServerAttachment(attachment)).pipe(
+      switchMap(function () {
+        self.logger.info('API', 'Upload started', { id: attachment.id, size: attachment.size });
+        return of(
+          new HttpResponse({
+            status: HTTP_STATUS.CREATED,
+            body: self.toUploadSession(attachment),
+          })
+        ).pipe(delay(100));
+      })
+    );
+  }
+
+  private handleGetUpload(id: string): Observable<HttpEvent<any>> {
+    const self = this;
+    return from(this.indexedDb.getServerAttachment(id)).pipe(
+      switchMap(function (attachment) {
+        if (!attachment) {
+          return self.createAttachmentError(HTTP_STATUS.NOT_FOUND, { error: 'Unknown upload' });
+        }
+        return of(
+          new HttpResponse({
+            status: HTTP_STATUS.OK,
+            body: self.toUploadSession(attachment),
+          })
+        ).pipe(delay(100));
+      })
+    );
+  }
+
+  private handleUploadChunk(id: string, body: any): Observable<HttpEvent<any>> {
+    const offset = body instanceof FormData ? Number(body.get('offset')) : NaN;
+    const chunk = body instanceof FormData ? body.get('chunk') : null;
+    if (isNaN(offset) || !(chunk instanceof Blob)) {
+      return this.createBadRequestResponse('Chunk upload needs an offset and a chunk');
+    }
+
+    const self = this;
+    return from(this.indexedDb.getServerAttachment(id)).pipe(
+      switchMap(function (attachment) {
+        if (!attachment) {
+          return self.createAttachmentError(HTTP_STATUS.NOT_FOUND, { error: 'Unknown upload' });
+        }
+        // A retried last chunk; the upload already finished.
+        if (attachment.complete) {
+          return of(
+            new HttpResponse({
+              status: HTTP_STATUS.OK,
+              body: self.toUploadSession(attachment),
+            })
+          ).pipe(delay(100));
+        }
+        // The client lost track of what arrived; tell it where to resume.
+        if (offset !== attachment.offset) {
+          return self.createAttachmentError(HTTP_STATUS.CONFLICT, {
+            error: 'Offset mismatch',
+            offset: attachment.offset,
+          });
+        }
+        return from(self.appendChunk(attachment, chunk)).pipe(delay(100));
+      })
+    );
+  }
+
+  private async appendChunk(
+    attachment: ServerAttachment,
+    chunk: Blob
+  ): Promise<HttpResponse<UploadSession>> {
+    const bytes = await readBlob(chunk);
+    const offset = Math.min(attachment.offset + bytes.byteLength, attachment.size);
+    const updated: ServerAttachment = {
+      ...attachment,
+      chunks: [...attachment.chunks, toBase64(bytes)],
+      offset,
+      complete: offset === attachment.size,
+    };
+
+    await this.indexedDb.putServerAttachment(updated);
+    if (updated.complete) {
+      this.logger.info('API', 'Upload complete', { id: updated.id });
+    }
+
+    return new HttpResponse({
+      status: HTTP_STATUS.OK,
+      body: this.toUploadSession(updated),
+    });
+  }
+
+  private handleGetAttachment(id: string): Observable<HttpEvent<any>> {
+    const self = this;
+    return from(this.indexedDb.getServerAttachment(id)).pipe(
+      switchMap(function (attachment) {
+        if (!attachment || !attachment.complete) {
+          return self.createAttachmentError(HTTP_STATUS.NOT_FOUND, { error: 'Not found' });
+        }
+        const parts = attachment.chunks.map(function (chunk) {
+          return fromBase64(chunk);
+        });
+        return of(
+          new HttpResponse({
+            status: HTTP_STATUS.OK,
+            headers: new HttpHeaders({ 'Content-Type': attachment.type }),
+            body: new Blob(parts, { type: attachment.type }),
+          })
+        ).pipe(delay(100));
+      })
+    );
+  }
+
+  private toUploadSession(attachment: ServerAttachment): UploadSession {
+    const session: UploadSession = { uploadId: attachment.id, offset: attachment.offset };
+    if (attachment.complete) {
+      session.attachment = {
+        id: attachment.id,
+        name: attachment.name,
+        type: attachment.type,
+        size: attachment.size,
+      };
+    }
+    return session;
+  }
+
+  // Upload clients branch on the status, so these are real HTTP errors.
+  private createAttachmentError(status: number, error: any): Observable<HttpEvent<any>> {
+    return throwError(function () {
+      return new HttpErrorResponse({ status, error });
+    }).pipe(delay(100));
   }
 
-  private isGetSessionNotes(req: HttpRequest<any>): boolean {
-    return req.method === HTTP_METHODS.GET && req.url === API_BASE_PATH;
+  // A client that lost the response to a committed write (crash, dropped
+  // connection) replays it with the same key and gets the original response back.
+  private handleIdempotentRequest(req: HttpRequest<any>, key: string): Observable<HttpEvent<any>> {
+    const self = this;
+
+    return from(this.indexedDb.getIdempotencyRecord(key)).pipe(
+      switchMap(function (record) {
+        if (record) {
+          self.logger.info('API', 'Replaying stored response', {
+            method: req.method,
+            url: req.url,
+            key,
+          });
+          return of(self.createReplayedResponse(record)).pipe(delay(100));
+        }
+
+        return self.routeRequest(req).pipe(
+          concatMap(function (event) {
+            return from(self.rememberResponse(req, key, event)).pipe(
+              map(function () {
+                return event;
+              })
+            );
+          })
+        );
+      })
+    );
   }
 
-  private isPostSessionNotes(req: HttpRequest<any>): boolean {
-    return req.method === HTTP_METHODS.POST && req.url === API_BASE_PATH;
+  private async rememberResponse(
+    req: HttpRequest<any>,
+    key: string,
+    event: HttpEvent<any>
+  ): Promise<void> {
+    if (!(event instanceof HttpResponse) || !event.ok) {
+      return;
+    }
+
+    await this.indexedDb.saveIdempotencyRecord({
+      key,
+      method: req.method,
+      url: req.url,
+      status: event.status,
+      body: event.body,
+      etag: event.headers.get('ETag') || undefined,
+      timestamp: Date.now(),
+    });
   }
 
-  private isPutSessionNote(req: HttpRequest<any>): boolean {
-    return req.method === HTTP_METHODS.PUT && req.url.startsWith(API_BASE_PATH + '/');
+  private createReplayedResponse(record: IdempotencyRecord): HttpResponse<any> {
+    let headers = new HttpHeaders({ 'Idempotent-Replayed': 'true' });
+    if (record.etag) {
+      headers = headers.set('ETag', record.etag);
+    }
+
+    return new HttpResponse({
+      status: record.status,
+      headers,
+      body: record.body,
+    });
   }
 
-  private isDeleteSessionNote(req: HttpRequest<any>): boolean {
-    return req.method === HTTP_METHODS.DELETE && req.url.startsWith(API_BASE_PATH + '/');
+  private isApiRequest(url: string): boolean {
+    return url.startsWith('/api/');
   }
 
-  private extractIdFromUrl(url: string): string | null {
-    const id = url.split('/').pop();
-    return id && isValidId(id) ? id : null;
+  private isRecordUrl(entity: EntityDefinition, url: string): boolean {
+    return url.startsWith(entity.basePath + '/') && url !== getChangesPath(entity);
   }
 
   private createNotFoundResponse(): Observable<HttpResponse<any>> {
@@ -80,6 +357,35 @@ export class ApiInterceptor implements HttpInterceptor {
     );
   }
 
+  private createVersionConflictError(
+    status: number,
+    current: OfflineEntity
+  ): Observable<HttpEvent<any>> {
+    return throwError(function () {
+      return new HttpErrorResponse({
+        status,
+        statusText: status === HTTP_STATUS.CONFLICT ? 'Conflict' : 'Precondition Failed',
+        headers: new HttpHeaders({ ETag: createEtag(current.version) }),
+        error: { error: 'Record was modified on the server', current },
+      });
+    }).pipe(delay(100));
+  }
+
+  // Returns the status to reject with, or null when the client's base version is current.
+  private checkPrecondition(req: HttpRequest<any>, record: OfflineEntity): number | null {
+    const ifMatch = req.headers.get('If-Match');
+    if (ifMatch && ifMatch !== '*' && ifMatch !== createEtag(record.version)) {
+      return HTTP_STATUS.PRECONDITION_FAILED;
+    }
+
+    const baseVersion = req.body && req.body.version;
+    if (baseVersion !== undefined && baseVersion !== (record.version || 1)) {
+      return HTTP_STATUS.CONFLICT;
+    }
+
+    return null;
+  }
+
   private createBadRequestResponse(message: string): Observable<HttpResponse<any>> {
     return of(
       new HttpResponse({
@@ -89,104 +395,244 @@ export class ApiInterceptor implements HttpInterceptor {
     );
   }
 
-  private handleGetSessionNotes(): Observable<HttpEvent<any>> {
-    const self = this;
-    return from(this.indexedDb.getSessionNotes()).pipe(
-      switchMap(function (notes) {
+  private handleList(entity: EntityDefinition): Observable<HttpEvent<any>> {
+    return from(this.indexedDb.getAllRecords(entity)).pipe(
+      switchMap(function (records) {
+        return of(
+          new HttpResponse({
+            status: HTTP_STATUS.OK,
+            body: records,
+          })
+        ).pipe(delay(100));
+      })
+    );
+  }
+
+  private handleQuery(
+    entity: EntityDefinition,
+    req: HttpRequest<any>
+  ): Observable<HttpEvent<any>> {
+    const query = parseRecordQuery(entity, req.params);
+    if (!findIndexForField(entity, query.orderBy)) {
+      return this.createBadRequestResponse(`Cannot sort by ${query.orderBy}`);
+    }
+
+    return from(this.indexedDb.queryRecords(entity, query)).pipe(
+      switchMap(function (page) {
         return of(
           new HttpResponse({
             status: HTTP_STATUS.OK,
-            body: notes,
+            body: page,
           })
         ).pipe(delay(100));
       })
     );
   }
 
-  private handlePostSessionNotes(req: HttpRequest<any>): Observable<HttpEvent<any>> {
-    const newNote: Omit<SessionNote, 'id'> = {
-      clientName: req.body.clientName,
-      note: req.body.note,
-      shiftDate: req.body.shiftDate || getTodayDateString(),
+  private handleGetChanges(
+    entity: EntityDefinition,
+    req: HttpRequest<any>
+  ): Observable<HttpEvent<any>> {
+    const since = Number(req.params.get('since')) || 0;
+
+    return from(this.buildChangeFeed(entity, since)).pipe(
+      switchMap(function (feed) {
+        return of(
+          new HttpResponse({
+            status: HTTP_STATUS.OK,
+            body: feed,
+          })
+        ).pipe(delay(100));
+      })
+    );
+  }
+
+  private async buildChangeFeed(
+    entity: EntityDefinition,
+    since: number
+  ): Promise<EntityChangeFeed> {
+    const cursor = await this.indexedDb.getLatestServerChangeSeq();
+
+    // Without a cursor the client has nothing yet, so send a full snapshot.
+    if (since === 0) {
+      const records = await this.indexedDb.getAllRecords(entity);
+      const changes = records.map(function (record): EntityChange {
+        return {
+          store: entity.storeName,
+          type: 'upsert',
+          id: record.id,
+          record,
+          timestamp: record.timestamp,
+        };
+      });
+      return { changes, cursor };
+    }
+
+    const log = await this.indexedDb.getServerChangesSince(since);
+    const latestById = new Map<string, EntityChange>();
+    log.forEach(function (change) {
+      if (change.store === entity.storeName) {
+        latestById.set(change.id, change);
+      }
+    });
+
+    return { changes: Array.from(latestById.values()), cursor };
+  }
+
+  private async recordChange(
+    entity: EntityDefinition,
+    change: Omit<EntityChange, 'seq' | 'store' | 'timestamp'>
+  ): Promise<void> {
+    await this.indexedDb.appendServerChange({
+      ...change,
+      store: entity.storeName,
       timestamp: Date.now(),
+    });
+  }
+
+  private handleCreate(
+    entity: EntityDefinition,
+    req: HttpRequest<any>
+  ): Observable<HttpEvent<any>> {
+    const now = Date.now();
+    const record: OfflineEntity = {
+      ...this.withCreateDefaults(entity, this.withoutServerFields(req.body)),
+      id: this.generateId(now),
+      timestamp: now,
+      version: 1,
+      updatedAt: now,
     };
 
     const self = this;
-    return from(this.indexedDb.addSessionNote(newNote)).pipe(
-      switchMap(function (id) {
-        const createdNote: SessionNote = {
-          id,
-          ...newNote,
-        };
+    return from(this.indexedDb.putRecord(entity, record)).pipe(
+      switchMap(async function () {
+        await self.recordChange(entity, { type: 'upsert', id: record.id, record });
+        return record;
+      }),
+      switchMap(function (createdRecord) {
         return of(
           new HttpResponse({
             status: HTTP_STATUS.CREATED,
-            body: createdNote,
+            headers: new HttpHeaders({ ETag: createEtag(createdRecord.version) }),
+            body: createdRecord,
           })
         ).pipe(delay(100));
       })
     );
   }
 
-  private handlePutSessionNote(req: HttpRequest<any>): Observable<HttpEvent<any>> {
-    const id = this.extractIdFromUrl(req.url);
+  // Timestamp ids, bumped so two creates in the same millisecond stay distinct.
+  private generateId(now: number): string {
+    this.lastCreatedId = Math.max(now, this.lastCreatedId + 1);
+    return String(this.lastCreatedId);
+  }
+
+  private withCreateDefaults(
+    entity: EntityDefinition,
+    fields: Record<string, any>
+  ): Record<string, any> {
+    const defaults = entity.createDefaults ? entity.createDefaults() : {};
+    const result = { ...fields };
+    Object.keys(defaults).forEach(function (field) {
+      if (!result[field]) {
+        result[field] = defaults[field];
+      }
+    });
+    return result;
+  }
+
+  private withoutServerFields(body: any): Record<string, any> {
+    const fields: Record<string, any> = {};
+    Object.keys(body || {}).forEach(function (field) {
+      if (!SERVER_FIELDS.includes(field)) {
+        fields[field] = body[field];
+      }
+    });
+    return fields;
+  }
+
+  private handleUpdate(
+    entity: EntityDefinition,
+    req: HttpRequest<any>
+  ): Observable<HttpEvent<any>> {
+    const id = extractIdFromUrl(req.url);
     if (!id) {
       return this.createBadRequestResponse('Invalid ID');
     }
 
     const self = this;
 
-    return from(this.indexedDb.getSessionNotes()).pipe(
-      switchMap(function (notes) {
-        return self.updateNoteIfExists(notes, id, req.body);
-      }),
-      switchMap(function (response) {
-        return of(response).pipe(delay(100));
+    return from(this.indexedDb.getRecord(entity, id)).pipe(
+      switchMap(function (record) {
+        const conflictStatus = record ? self.checkPrecondition(req, record) : null;
+        if (record && conflictStatus) {
+          self.logger.info('API', 'Version conflict on update', { id, status: conflictStatus });
+          return self.createVersionConflictError(conflictStatus, record);
+        }
+        return from(self.updateRecordIfExists(entity, record, id, req.body)).pipe(delay(100));
       })
     );
   }
 
-  private async updateNoteIfExists(
-    notes: SessionNote[],
+  private async updateRecordIfExists(
+    entity: EntityDefinition,
+    record: OfflineEntity | null,
     id: string,
     body: any
   ): Promise<HttpResponse<any>> {
-    const note = notes.find(function (n) {
-      return n.id === id;
-    });
-
-    if (!note) {
-      console.log('ApiInterceptor: Note not found:', id);
+    if (!record) {
+      this.logger.info('API', 'Record not found', { entity: entity.name, id });
       return new HttpResponse({
         status: HTTP_STATUS.NOT_FOUND,
         body: { error: 'Not found' },
       });
     }
 
-    const updatedNote: SessionNote = {
-      ...note,
-      ...body,
-      timestamp: note.timestamp,
+    const updatedRecord: OfflineEntity = {
+      ...record,
+      ...this.withoutServerFields(body),
+      version: (record.version || 1) + 1,
+      updatedAt: Date.now(),
     };
 
-    await this.indexedDb.updateSessionNote(updatedNote);
-    console.log('ApiInterceptor: Updated session note in IndexedDB:', updatedNote);
+    await this.indexedDb.putRecord(entity, updatedRecord);
+    await this.recordChange(entity, { type: 'upsert', id, record: updatedRecord });
+    this.logger.debug('API', 'Updated record', {
+      entity: entity.name,
+      id,
+      version: updatedRecord.version,
+    });
 
     return new HttpResponse({
       status: HTTP_STATUS.OK,
-      body: updatedNote,
+      headers: new HttpHeaders({ ETag: createEtag(updatedRecord.version) }),
+      body: updatedRecord,
     });
   }
 
-  private handleDeleteSessionNote(req: HttpRequest<any>): Observable<HttpEvent<any>> {
-    const id = this.extractIdFromUrl(req.url);
+  private handleDelete(
+    entity: EntityDefinition,
+    req: HttpRequest<any>
+  ): Observable<HttpEvent<any>> {
+    const id = extractIdFromUrl(req.url);
     if (!id) {
       return this.createBadRequestResponse('Invalid ID');
     }
 
     const self = this;
 
-    return from(this.indexedDb.deleteSessionNote(id)).pipe(
+    return from(this.indexedDb.getRecord(entity, id)).pipe(
+      switchMap(function (record) {
+        const conflictStatus = record ? self.checkPrecondition(req, record) : null;
+        if (record && conflictStatus) {
+          self.logger.info('API', 'Version conflict on delete', { id, status: conflictStatus });
+          return self.createVersionConflictError(conflictStatus, record);
+        }
+        return from(self.indexedDb.deleteRecord(entity, id));
+      }),
+      switchMap(function () {
+        return self.recordChange(entity, { type: 'delete', id });
+      }),
       switchMap(function () {
         return of(
           new HttpResponse({
@@ -0,0 +1,208 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import worker from '../../../../public/app-worker-outbox.js';
+import { OutboxItem } from '../models';
+import { DEFAULT_RETRY_CONFIG, calculateBackoffDelay } from '../utils/retry.utils';
+import {
+  getResourceUrl,
+  rewriteOutboxItemId,
+  rewriteOutboxItemVersion,
+} from '../utils/outbox.utils';
+import { isClientError, isRetryableClientError } from '../utils/http.utils';
+import { TEMP_ID_PREFIX } from '../utils/id.utils';
+import { createIndexedDbService } from '../testing/service-stubs';
+import { OUTBOX_SYNC_TAG } from './background-sync.service';
+import { LoggerService } from './logger.service';
+import { OUTBOX_PAUSED_KEY } from './sync.service';
+import { OUTBOX_SYNC_LOCK } from './tab-coordination.service';
+
+// public/app-worker-outbox.js is plain JavaScript that mirrors parts of SyncService. These
+// specs load it and compare the copies with the originals so the two cannot drift.
+
+function item(method: string, url: string, payload: unknown): OutboxItem {
+  return { method, url, payload, timestamp: 1 };
+}
+
+describe('app-worker-outbox.js mirrored constants', () => {
+  it('should match the app', () => {
+    expect(worker.RETRY_CONFIG).toEqual(DEFAULT_RETRY_CONFIG);
+    expect(worker.SYNC_TAG).toBe(OUTBOX_SYNC_TAG);
+    expect(worker.TEMP_ID_PREFIX).toBe(TEMP_ID_PREFIX);
+    expect(worker.OUTBOX_SYNC_LOCK).toBe(OUTBOX_SYNC_LOCK);
+    expect(worker.OUTBOX_PAUSED_KEY).toBe(OUTBOX_PAUSED_KEY);
+  });
+});
+
+describe('app-worker-outbox.js mirrored helpers', () => {
+  const items = [
+    item('POST', '/api/session-notes', { id: 'tmp-1', followUpOf: 'tmp-2' }),
+    item('POST', '/api/session-notes', { note: 'no id' }),
+    item('PUT', '/api/session-notes/tmp-1', { id: 'tmp-1', attachments: [{ id: 'tmp-1' }] }),
+    item('DELETE', '/api/session-notes/tmp-10', null),
+  ];
+
+  it('should rewrite temp ids like rewriteOutboxItemId', () => {
+    items.forEach((queued) => {
+      expect(worker.rewriteItemId(queued, 'tmp-1', '42')).toEqual(
+        rewriteOutboxItemId(queued, 'tmp-1', '42')
+      );
+    });
+  });
+
+  it('should rewrite versions like rewriteOutboxItemVersion', () => {
+    const edits = [
+      { ...item('PUT', '/api/session-notes/1', { note: 'a', version: 3 }), ifMatch: '"3"' },
+      item('PATCH', '/api/session-notes/1', { note: 'b' }),
+      { ...item('DELETE', '/api/session-notes/2', null), ifMatch: '"3"' },
+    ];
+    [...items, ...edits].forEach((queued) => {
+      expect(worker.rewriteItemVersion(queued, '/api/session-notes/1', 4)).toEqual(
+        rewriteOutboxItemVersion(queued, '/api/session-notes/1', 4)
+      );
+    });
+  });
+
+  it('should block on the same resource as SyncService', () => {
+    items.forEach((queued) => {
+      expect(worker.getBlockingKey(queued)).toBe(getResourceUrl(queued) || queued.url);
+    });
+  });
+
+  it('should retry the same statuses as SyncService', () => {
+    [0, 400, 404, 408, 409, 412, 429, 500, 503].forEach((status) => {
+      const retriedByApp = !(isClientError(status) && !isRetryableClientError(status));
+      expect(worker.isRetryableStatus(status)).toBe(retriedByApp);
+    });
+  });
+
+  it('should back off on the same schedule', () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValue(1);
+    try {
+      [1, 3, 10].forEach((attempt) => {
+        expect(worker.calculateBackoffDelay(attempt)).toBe(
+          calculateBackoffDelay(attempt, DEFAULT_RETRY_CONFIG, () => 1)
+        );
+      });
+    } finally {
+      random.mockRestore();
+    }
+  });
+});
+
+describe('app-worker-outbox.js outbox access', () => {
+  const logger = new LoggerService([]);
+  const db = () => createIndexedDbService(logger);
+
+  function openRaw(name: string): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(name);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('should read the queue in the order the app sends it', async () => {
+    const app = db();
+    await app.addToOutbox({ ...item('PUT', '/api/session-notes/1', {}), order: 3 });
+    await app.addToOutbox({ ...item('PUT', '/api/session-notes/2', {}), order: 1 });
+    await app.addToOutbox({ ...item('PUT', '/api/session-notes/3', {}), order: 2 });
+    const appOrder = (await app.getOutbox()).map((queued) => queued.url);
+
+    const raw = await openRaw(worker.DB_NAME);
+    expect(raw.transaction('outbox').objectStore('outbox').indexNames).toContain(
+      worker.OUTBOX_ORDER_INDEX
+    );
+    const workerOrder = (await worker.getAll<OutboxItem>(raw, 'outbox')).map(
+      (queued) => queued.url
+    );
+    raw.close();
+
+    expect(workerOrder).toEqual(appOrder);
+  });
+
+  describe('background sync', () => {
+    let fetchSpy: ReturnType<typeof vi.fn>;
+    let showNotification: ReturnType<typeof vi.fn>;
+    let windows: { postMessage: ReturnType<typeof vi.fn> }[];
+
+    beforeEach(() => {
+      fetchSpy = vi.fn(() => Promise.resolve(new Response('{}', { status: 200 })));
+      showNotification = vi.fn(() => Promise.resolve());
+      windows = [];
+      vi.stubGlobal('fetch', fetchSpy);
+      vi.stubGlobal('clients', { matchAll: () => Promise.resolve(windows) });
+      vi.stubGlobal('registration', { showNotification });
+      vi.stubGlobal('Notification', { permission: 'granted' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send the queue itself when no tab is open', async () => {
+      const app = db();
+      await app.addToOutbox(item('PUT', '/api/session-notes/1', { id: '1' }));
+
+      await worker.handleBackgroundSync();
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        '/api/session-notes/1',
+        expect.objectContaining({ method: 'PUT' })
+      );
+      expect(await app.getOutbox()).toEqual([]);
+    });
+
+    it('should send a later edit against the version the earlier one wrote', async () => {
+      fetchSpy.mockImplementation(() =>
+        Promise.resolve(new Response('{"version":4}', { status: 200 }))
+      );
+      const app = db();
+      const edit = { ...item('PUT', '/api/session-notes/1', { version: 3 }), ifMatch: '"3"' };
+      await app.addToOutbox({ ...edit, attempts: 1 });
+      await app.addToOutbox(edit);
+
+      await worker.handleBackgroundSync();
+
+      const ifMatches = fetchSpy.mock.calls.map(
+        (call) => (call[1] as RequestInit & { headers: Headers }).headers.get('If-Match')
+      );
+      expect(ifMatches).toEqual(['"3"', '"4"']);
+    });
+
+    it('should hand sync to an open tab instead of sending', async () => {
+      windows.push({ postMessage: vi.fn() });
+      const app = db();
+      await app.addToOutbox(item('PUT', '/api/session-notes/1', { id: '1' }));
+
+      await worker.handleBackgroundSync();
+
+      expect(windows[0].postMessage).toHaveBeenCalledWith({ type: 'SYNC_REQUESTED' });
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect((await app.getOutbox()).length).toBe(1);
+    });
+
+    it('should ask the user to open the app when the queue is sealed', async () => {
+      await db().init();
+      const raw = await openRaw(worker.DB_NAME);
+      await new Promise((resolve) => {
+        const tx = raw.transaction('outbox', 'readwrite');
+        const sealed = { ...item('PUT', '/api/session-notes/1', null), order: 1, sealed: {} };
+        tx.objectStore('outbox').add(sealed);
+        tx.oncomplete = resolve;
+      });
+      raw.close();
+
+      await worker.handleBackgroundSync();
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(showNotification).toHaveBeenCalledWith(
+        'Changes waiting to sync',
+        expect.objectContaining({ tag: worker.SYNC_TAG })
+      );
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  HttpClient,
+  HttpErrorResponse,
+  HttpHandler,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { of, throwError } from 'rxjs';
+import { Attachment } from '../models';
+import { AttachmentService } from './attachment.service';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { RetryConfig } from '../utils/retry.utils';
+
+const RETRY_CONFIG: RetryConfig = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 };
+
+function createAttachment(overrides: Partial<Attachment> = {}): Attachment {
+  return {
+    id: 'temp_1',
+    name: 'scan.pdf',
+    type: 'application/pdf',
+    size: 3,
+    status: 'pending',
+    uploadedBytes: 0,
+    timestamp: 1,
+    ...overrides,
+  };
+}
+
+// Keeps attachments in a map; only the calls AttachmentService makes are implemented.
+function createIndexedDb(attachment: Attachment) {
+  const attachments = new Map([[attachment.id, attachment]]);
+  const indexedDb = {
+    getAttachmentsByStatus: (statuses: string[]) =>
+      Promise.resolve([...attachments.values()].filter((item) => statuses.includes(item.status))),
+    getAttachment: (id: string) => Promise.resolve(attachments.get(id)),
+    getAttachmentData: () => Promise.resolve('AQID'),
+    updateAttachment: (updated: Attachment) => {
+      attachments.set(updated.id, updated);
+      return Promise.resolve();
+    },
+  };
+  return { attachments, indexedDb: indexedDb as unknown as IndexedDbService };
+}
+
+// Every upload POST fails with `status`; a stored session can still be resumed with GET.
+function createFailingHttp(status: number): HttpClient {
+  const handler: HttpHandler = {
+    handle: (request: HttpRequest<any>) =>
+      request.method === 'GET'
+        ? of(new HttpResponse({ status: 200, body: { uploadId: 'upload_1', offset: 2 } }))
+        : throwError(() => new HttpErrorResponse({ status, url: request.url })),
+  };
+  return new HttpClient(handler);
+}
+
+function createService(status: number, attachment: Attachment) {
+  const { attachments, indexedDb } = createIndexedDb(attachment);
+  const service = new AttachmentService(
+    createFailingHttp(status),
+    indexedDb,
+    new LoggerService([])
+  );
+  return { attachments, service };
+}
+
+describe('AttachmentService.uploadPending', () => {
+  it('should mark a rejected upload failed and stop reporting it as pending', async () => {
+    const { attachments, service } = createService(400, createAttachment());
+
+    expect(await service.uploadPending(RETRY_CONFIG)).toBe(0);
+
+    const attachment = attachments.get('temp_1')!;
+    expect(attachment.status).toBe('failed');
+    expect(attachment.lastError).toBeTruthy();
+    // Records referencing it are no longer held back.
+    expect((await service.getPendingIds()).size).toBe(0);
+  });
+
+  it('should back off after a server error and keep the attachment pending', async () => {
+    const { attachments, service } = createService(503, createAttachment());
+
+    await service.uploadPending(RETRY_CONFIG);
+
+    const attachment = attachments.get('temp_1')!;
+    expect(attachment.status).toBe('pending');
+    expect(attachment.attempts).toBe(1);
+    expect(attachment.nextRetryAt).toBeGreaterThan(Date.now());
+    expect(await service.getNextRetryAt()).toBe(attachment.nextRetryAt);
+    expect((await service.getPendingIds()).has('temp_1')).toBe(true);
+  });
+
+  it('should skip an attachment still waiting out its backoff', async () => {
+    const nextRetryAt = Date.now() + 60000;
+    const { attachments, service } = createService(
+      503,
+      createAttachment({ attempts: 1, nextRetryAt })
+    );
+
+    await service.uploadPending(RETRY_CONFIG);
+
+    expect(attachments.get('temp_1')!.attempts).toBe(1);
+    expect(attachments.get('temp_1')!.nextRetryAt).toBe(nextRetryAt);
+  });
+
+  it('should give up once the attempts run out', async () => {
+    const { attachments, service } = createService(
+      503,
+      createAttachment({ attempts: RETRY_CONFIG.maxAttempts - 1, nextRetryAt: 1 })
+    );
+
+    await service.uploadPending(RETRY_CONFIG);
+
+    const attachment = attachments.get('temp_1')!;
+    expect(attachment.status).toBe('failed');
+    expect(attachment.attempts).toBe(RETRY_CONFIG.maxAttempts);
+    expect(await service.getNextRetryAt()).toBeNull();
+  });
+
+  it('should restart an upload whose session expired instead of failing it', async () => {
+    const { attachments, service } = createService(
+      404,
+      createAttachment({ status: 'uploading', uploadId: 'upload_1', uploadedBytes: 2 })
+    );
+
+    await service.uploadPending(RETRY_CONFIG);
+
+    // The session resumes, then the server has dropped it by the time the chunk arrives.
+    const attachment = attachments.get('temp_1')!;
+    expect(attachment.status).toBe('uploading');
+    expect(attachment.uploadId).toBeUndefined();
+    expect(attachment.uploadedBytes).toBe(0);
+    expect(attachment.attempts).toBe(1);
+  });
+});
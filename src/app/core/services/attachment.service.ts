@@ -0,0 +1,301 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable, firstValueFrom } from 'rxjs';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { Attachment, AttachmentRef, UploadSession } from '../models';
+import { SKIP_OUTBOX } from '../interceptors/offline.interceptor';
+import {
+  HTTP_STATUS,
+  isClientError,
+  isNetworkError,
+  isRetryableClientError,
+} from '../utils/http.utils';
+import {
+  DEFAULT_RETRY_CONFIG,
+  RetryConfig,
+  calculateBackoffDelay,
+  hasExceededMaxAttempts,
+} from '../utils/retry.utils';
+import { generateTempId } from '../utils/id.utils';
+import { fromBase64, toBase64 } from '../utils/crypto.utils';
+import { readBlob } from '../utils/outbox-request.utils';
+import { describeError } from '../utils/log.utils';
+import {
+  ATTACHMENT_CHUNK_SIZE,
+  MAX_ATTACHMENT_SIZE,
+  UPLOADS_PATH,
+  createChunkForm,
+  getAttachmentUrl,
+  getChunk,
+  getUploadUrl,
+  toAttachmentRef,
+} from '../utils/attachment.utils';
+
+// Files are stored locally first and referenced from records by temp id. SyncService
+// uploads them before draining the outbox, then the temp ids are mapped like any other.
+@Injectable({
+  providedIn: 'root',
+})
+export class AttachmentService {
+  constructor(
+    private http: HttpClient,
+    private indexedDb: IndexedDbService,
+    private logger: LoggerService
+  ) {}
+
+  watchAttachments(): Observable<Attachment[]> {
+    return this.indexedDb.watchAttachments();
+  }
+
+  async addAttachment(file: Blob): Promise<AttachmentRef> {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`Attachments are limited to ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+    }
+
+    const attachment: Attachment = {
+      id: generateTempId(),
+      name: file instanceof File ? file.name : 'attachment',
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+      status: 'pending',
+      uploadedBytes: 0,
+      timestamp: Date.now(),
+    };
+
+    await this.indexedDb.addAttachment(attachment, toBase64(await readBlob(file)));
+    this.logger.info('ATTACH', 'Stored', { id: attachment.id, size: attachment.size });
+    return toAttachmentRef(attachment);
+  }
+
+  // Temp ids of attachments the server does not have yet but may still get.
+  async getPendingIds(): Promise<Set<string>> {
+    const pending = await this.indexedDb.getAttachmentsByStatus(['pending', 'uploading']);
+    return new Set(
+      pending.map(function (attachment) {
+        return attachment.id;
+      })
+    );
+  }
+
+  // Reads the local copy when there is one, otherwise downloads and keeps the file.
+  async getBlob(ref: AttachmentRef): Promise<Blob> {
+    const local = await this.findLocalData(ref.id);
+    if (local !== null) {
+      return new Blob([fromBase64(local)], { type: ref.type });
+    }
+
+    const blob = await firstValueFrom(
+      this.http.get(getAttachmentUrl(ref.id), { responseType: 'blob' })
+    );
+    await this.indexedDb.addAttachment(
+      {
+        ...ref,
+        status: 'uploaded',
+        uploadedBytes: ref.size,
+        serverId: ref.id,
+        timestamp: Date.now(),
+      },
+      toBase64(await readBlob(blob))
+    );
+    return blob;
+  }
+
+  private async findLocalData(id: string): Promise<string | null> {
+    const data = await this.indexedDb.getAttachmentData(id);
+    if (data !== null) {
+      return data;
+    }
+
+    // Records pulled after the upload carry the server id; the bytes are stored under the temp id.
+    const attachments = await this.indexedDb.getAttachmentsByStatus(['uploaded']);
+    const uploaded = attachments.find(function (attachment) {
+      return attachment.serverId === id;
+    });
+    return uploaded ? this.indexedDb.getAttachmentData(uploaded.id) : null;
+  }
+
+  // Earliest time an attachment waiting out a backoff may be retried.
+  async getNextRetryAt(): Promise<number | null> {
+    const pending = await this.indexedDb.getAttachmentsByStatus(['pending', 'uploading']);
+    const retryTimes = pending
+      .map(function (attachment) {
+        return attachment.nextRetryAt;
+      })
+      .filter(function (time): time is number {
+        return typeof time === 'number';
+      });
+    return retryTimes.length > 0 ? Math.min(...retryTimes) : null;
+  }
+
+  // Uploads pending attachments oldest first and returns how many finished.
+  // A network failure stops the run; the next one resumes from the stored offset.
+  async uploadPending(retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG): Promise<number> {
+    const now = Date.now();
+    const pending = await this.indexedDb.getAttachmentsByStatus(['pending', 'uploading']);
+    let uploaded = 0;
+
+    for (const attachment of pending) {
+      if (attachment.nextRetryAt && attachment.nextRetryAt > now) {
+        continue;
+      }
+
+      try {
+        await this.upload(attachment);
+        uploaded++;
+      } catch (error: any) {
+        const latest = (await this.indexedDb.getAttachment(attachment.id)) || attachment;
+        await this.handleUploadError(error, latest, retryConfig);
+        if (isNetworkError(error)) {
+          break;
+        }
+      }
+    }
+
+    return uploaded;
+  }
+
+  // Same rules as outbox items in SyncService: transient failures back off, while a
+  // rejected upload or one out of attempts is marked failed so it stops holding back
+  // the records that reference it.
+  private async handleUploadError(
+    error: any,
+    attachment: Attachment,
+    retryConfig: RetryConfig
+  ): Promise<void> {
+    const lastError = describeError(error);
+    const attempts = (attachment.attempts || 0) + 1;
+    // The server dropped the upload session; start over on the next attempt.
+    const isExpired = error.status === HTTP_STATUS.NOT_FOUND && !!attachment.uploadId;
+    const isRejected =
+      !isExpired && isClientError(error.status) && !isRetryableClientError(error.status);
+
+    if (isRejected || hasExceededMaxAttempts(attempts, retryConfig)) {
+      this.logger.error('ATTACH', 'Upload failed, giving up', {
+        id: attachment.id,
+        attempts,
+        error: lastError,
+      });
+      await this.indexedDb.updateAttachment({
+        ...attachment,
+        status: 'failed',
+        attempts,
+        nextRetryAt: undefined,
+        lastError,
+      });
+      return;
+    }
+
+    const delayMs = calculateBackoffDelay(attempts, retryConfig);
+    this.logger.warn('ATTACH', 'Upload failed, retry scheduled', {
+      id: attachment.id,
+      attempts,
+      delayMs,
+      error: lastError,
+    });
+    await this.indexedDb.updateAttachment({
+      ...attachment,
+      ...(isExpired ? { uploadId: undefined, uploadedBytes: 0 } : {}),
+      attempts,
+      nextRetryAt: Date.now() + delayMs,
+      lastError,
+    });
+  }
+
+  private async upload(attachment: Attachment): Promise<void> {
+    const data = await this.indexedDb.getAttachmentData(attachment.id);
+    if (data === null) {
+      throw new Error(`Attachment data missing: ${attachment.id}`);
+    }
+
+    const bytes = fromBase64(data);
+    let session = await this.openSession(attachment);
+    let current: Attachment = {
+      ...attachment,
+      status: 'uploading',
+      uploadId: session.uploadId,
+      uploadedBytes: session.offset,
+      lastError: undefined,
+    };
+    await this.indexedDb.updateAttachment(current);
+    this.logger.info('ATTACH', 'Uploading', { id: attachment.id, fromByte: session.offset });
+
+    while (!session.attachment) {
+      const previousOffset = session.offset;
+      session = await this.sendChunk(session, bytes, attachment.type);
+      if (!session.attachment && session.offset <= previousOffset) {
+        throw new Error(`Upload stalled at byte ${session.offset}`);
+      }
+      current = { ...current, uploadedBytes: session.offset };
+      await this.indexedDb.updateAttachment(current);
+    }
+
+    await this.completeUpload(current, session.attachment.id);
+  }
+
+  // Resumes the stored session when the server still has it, otherwise starts over.
+  private async openSession(attachment: Attachment): Promise<UploadSession> {
+    if (attachment.uploadId) {
+      try {
+        return await firstValueFrom(
+          this.http.get<UploadSession>(getUploadUrl(attachment.uploadId))
+        );
+      } catch (error: any) {
+        if (error.status !== HTTP_STATUS.NOT_FOUND) {
+          throw error;
+        }
+        this.logger.info('ATTACH', 'Upload session expired, restarting', { id: attachment.id });
+      }
+    }
+
+    return firstValueFrom(
+      this.http.post<UploadSession>(
+        UPLOADS_PATH,
+        { name: attachment.name, type: attachment.type, size: attachment.size },
+        { context: this.createContext() }
+      )
+    );
+  }
+
+  private async sendChunk(
+    session: UploadSession,
+    bytes: Uint8Array,
+    type: string
+  ): Promise<UploadSession> {
+    const chunk = getChunk(bytes, session.offset, ATTACHMENT_CHUNK_SIZE);
+    try {
+      return await firstValueFrom(
+        this.http.post<UploadSession>(
+          getUploadUrl(session.uploadId),
+          createChunkForm(session.offset, chunk, type),
+          { context: this.createContext() }
+        )
+      );
+    } catch (error: any) {
+      // The response to an earlier chunk was lost; carry on from where the server is.
+      if (error.status === HTTP_STATUS.CONFLICT && error.error && error.error.offset >= 0) {
+        return { uploadId: session.uploadId, offset: error.error.offset };
+      }
+      throw error;
+    }
+  }
+
+  private async completeUpload(attachment: Attachment, serverId: string): Promise<void> {
+    await this.indexedDb.updateAttachment({
+      ...attachment,
+      status: 'uploaded',
+      uploadedBytes: attachment.size,
+      serverId,
+      nextRetryAt: undefined,
+      lastError: undefined,
+    });
+    await this.indexedDb.addIdMapping(attachment.id, serverId);
+    const rewritten = await this.indexedDb.rewriteOutboxIds(attachment.id, serverId);
+    this.logger.info('ATTACH', 'Uploaded', { id: attachment.id, serverId, rewritten });
+  }
+
+  // Upload requests must fail rather than be queued; the attachment store is their queue.
+  private createContext(): HttpContext {
+    return new HttpContext().set(SKIP_OUTBOX, true);
+  }
+}
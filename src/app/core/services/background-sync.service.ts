@@ -0,0 +1,122 @@
+import { Injectable, NgZone } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { LoggerService } from './logger.service';
+import { describeError } from '../utils/log.utils';
+
+export const OUTBOX_SYNC_TAG = 'outbox-sync';
+
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface BackgroundSyncMessage {
+  type: 'SYNC_REQUESTED' | 'OUTBOX_SYNCED';
+  result?: { synced: number; conflicts: number; retried: number; networkFailure: boolean };
+}
+
+// Background Sync and Periodic Background Sync are not in the standard DOM typings yet.
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+  };
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class BackgroundSyncService {
+  private messageSubject = new Subject<BackgroundSyncMessage>();
+
+  constructor(
+    private zone: NgZone,
+    private logger: LoggerService
+  ) {
+    this.listenForWorkerMessages();
+  }
+
+  get messages$(): Observable<BackgroundSyncMessage> {
+    return this.messageSubject.asObservable();
+  }
+
+  // The worker can only send sealed items through a tab. With none open it shows a
+  // notification that opens one, which needs the user's permission.
+  get unlockReminderPermission(): NotificationPermission | null {
+    return typeof Notification === 'undefined' ? null : Notification.permission;
+  }
+
+  async enableUnlockReminders(): Promise<boolean> {
+    if (this.unlockReminderPermission === null) {
+      return false;
+    }
+    const permission = await Notification.requestPermission();
+    this.logger.info('BG SYNC', 'Unlock reminder permission', { permission });
+    return permission === 'granted';
+  }
+
+  async requestSync(): Promise<boolean> {
+    const registration = await this.getRegistration();
+    if (!registration || !registration.sync) {
+      return false;
+    }
+
+    try {
+      await registration.sync.register(OUTBOX_SYNC_TAG);
+      this.logger.info('BG SYNC', 'Registered background sync', { tag: OUTBOX_SYNC_TAG });
+      return true;
+    } catch (error) {
+      this.logger.error('BG SYNC', 'Could not register background sync', {
+        error: describeError(error),
+      });
+      return false;
+    }
+  }
+
+  async registerPeriodicSync(): Promise<boolean> {
+    const registration = await this.getRegistration();
+    if (!registration || !registration.periodicSync) {
+      return false;
+    }
+
+    try {
+      const status = await navigator.permissions.query({
+        name: 'periodic-background-sync' as PermissionName,
+      });
+      if (status.state !== 'granted') {
+        return false;
+      }
+
+      await registration.periodicSync.register(OUTBOX_SYNC_TAG, {
+        minInterval: PERIODIC_SYNC_INTERVAL_MS,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error('BG SYNC', 'Could not register periodic sync', {
+        error: describeError(error),
+      });
+      return false;
+    }
+  }
+
+  private async getRegistration(): Promise<SyncCapableRegistration | null> {
+    if (!('serviceWorker' in navigator)) {
+      return null;
+    }
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration || null;
+  }
+
+  private listenForWorkerMessages(): void {
+    if (!('serviceWorker' in navigator)) {
+      return;
+    }
+
+    const self = this;
+    navigator.serviceWorker.addEventListener('message', function (event: MessageEvent) {
+      const data = event.data;
+      if (data && (data.type === 'SYNC_REQUESTED' || data.type === 'OUTBOX_SYNCED')) {
+        self.zone.run(function () {
+          self.messageSubject.next(data);
+        });
+      }
+    });
+  }
+}
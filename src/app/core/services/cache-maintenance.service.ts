@@ -0,0 +1,121 @@
+import { Injectable, InjectionToken, Inject, OnDestroy } from '@angular/core';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import {
+  CacheBudget,
+  DEFAULT_CACHE_BUDGET,
+  selectEvictionsToFree,
+  selectLruEvictions,
+} from '../utils/cache-eviction.utils';
+import { describeError } from '../utils/log.utils';
+
+export const CACHE_BUDGET = new InjectionToken<CacheBudget>('CACHE_BUDGET', {
+  providedIn: 'root',
+  factory: () => DEFAULT_CACHE_BUDGET,
+});
+
+export interface CacheSweepResult {
+  expired: number;
+  evicted: number;
+  quotaEvicted: number;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CacheMaintenanceService implements OnDestroy {
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private indexedDb: IndexedDbService,
+    @Inject(CACHE_BUDGET) private budget: CacheBudget,
+    private logger: LoggerService
+  ) {}
+
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.requestPersistentStorage();
+    this.runSweep();
+
+    const self = this;
+    this.sweepTimer = setInterval(function () {
+      self.runSweep();
+    }, this.budget.sweepIntervalMs);
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  async sweep(): Promise<CacheSweepResult> {
+    const expired = await this.indexedDb.deleteCacheOlderThan(Date.now() - this.budget.ttlMs);
+
+    const items = await this.indexedDb.getCacheEntryStats();
+    const lruKeys = selectLruEvictions(items, this.budget.maxEntries, this.budget.maxBytes);
+    await this.indexedDb.deleteCacheEntries(lruKeys);
+
+    const quotaEvicted = await this.trimToQuota();
+
+    const result = { expired, evicted: lruKeys.length, quotaEvicted };
+    if (expired || lruKeys.length || quotaEvicted) {
+      this.logger.info('CACHE', 'Sweep complete', { ...result });
+    }
+    return result;
+  }
+
+  private runSweep(): void {
+    const self = this;
+    this.sweep().catch(function (error) {
+      self.logger.error('CACHE', 'Sweep failed', { error: describeError(error) });
+    });
+  }
+
+  private async trimToQuota(): Promise<number> {
+    if (!navigator.storage || !navigator.storage.estimate) {
+      return 0;
+    }
+
+    const estimate = await navigator.storage.estimate();
+    if (!estimate.quota || estimate.usage === undefined) {
+      return 0;
+    }
+
+    const bytesToFree = estimate.usage - estimate.quota * this.budget.quotaThreshold;
+    if (bytesToFree <= 0) {
+      return 0;
+    }
+
+    this.logger.warn('CACHE', 'Storage near quota', {
+      usage: estimate.usage,
+      quota: estimate.quota,
+    });
+
+    const items = await this.indexedDb.getCacheEntryStats();
+    const keys = selectEvictionsToFree(items, bytesToFree);
+    await this.indexedDb.deleteCacheEntries(keys);
+    return keys.length;
+  }
+
+  private requestPersistentStorage(): void {
+    if (!navigator.storage || !navigator.storage.persist) {
+      return;
+    }
+
+    const self = this;
+    navigator.storage.persist().catch(function (error) {
+      self.logger.error('CACHE', 'Could not request persistent storage', {
+        error: describeError(error),
+      });
+    });
+  }
+}
@@ -0,0 +1,163 @@
+import { Injectable, Inject } from '@angular/core';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { SyncService, OFFLINE_REPOSITORIES } from './sync.service';
+import { OfflineRepository } from './offline-repository';
+import {
+  ConflictDetail,
+  ConflictFieldChoice,
+  OfflineEntity,
+  SyncConflict,
+} from '../models';
+import { HTTP_METHODS, extractIdFromUrl, createEtag } from '../utils/http.utils';
+import { generateIdempotencyKey } from '../utils/id.utils';
+import { findEntityForUrl } from '../utils/entity.utils';
+import { pickRequestOptions } from '../utils/outbox-request.utils';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ConflictResolutionService {
+  constructor(
+    private indexedDb: IndexedDbService,
+    private syncService: SyncService,
+    @Inject(OFFLINE_REPOSITORIES) private repositories: OfflineRepository<OfflineEntity>[],
+    private logger: LoggerService
+  ) {}
+
+  async getConflictDetails(): Promise<ConflictDetail[]> {
+    const conflicts = await this.indexedDb.getSyncConflicts();
+    if (conflicts.length === 0) {
+      return [];
+    }
+
+    const serverRecords = await this.loadServerRecords(conflicts);
+    const self = this;
+
+    return conflicts.map(function (conflict) {
+      const repository = self.findRepository(conflict.url);
+      const id = conflict.method === HTTP_METHODS.POST ? null : extractIdFromUrl(conflict.url);
+      const serverVersion =
+        (serverRecords.get(conflict) || []).find(function (record) {
+          return record.id === id;
+        }) ||
+        conflict.serverVersion ||
+        null;
+
+      return {
+        conflict,
+        fields: (repository && repository.entity.mergeableFields) || [],
+        localVersion: conflict.payload,
+        serverVersion,
+      };
+    });
+  }
+
+  async keepMine(detail: ConflictDetail): Promise<void> {
+    await this.requeue(detail.conflict, detail.localVersion, detail.serverVersion);
+  }
+
+  async keepTheirs(conflict: SyncConflict): Promise<void> {
+    this.logger.info('CONFLICT', 'Discarding local change', {
+      method: conflict.method,
+      url: conflict.url,
+    });
+    await this.removeConflict(conflict);
+  }
+
+  async merge(
+    detail: ConflictDetail,
+    choices: Record<string, ConflictFieldChoice>
+  ): Promise<void> {
+    const merged = this.mergeFields(
+      detail.localVersion,
+      detail.serverVersion,
+      detail.fields,
+      choices
+    );
+    await this.requeue(detail.conflict, merged, detail.serverVersion);
+  }
+
+  mergeFields(
+    local: unknown,
+    server: OfflineEntity | null,
+    fields: string[],
+    choices: Record<string, ConflictFieldChoice>
+  ): Record<string, unknown> {
+    const merged: Record<string, unknown> = { ...(local as Record<string, unknown> | null) };
+    const serverFields = server as Record<string, unknown> | null;
+
+    fields.forEach(function (field) {
+      if (choices[field] === 'theirs' && serverFields && serverFields[field] !== undefined) {
+        merged[field] = serverFields[field];
+      }
+    });
+
+    return merged;
+  }
+
+  // Re-queued edits are based on the server version the user just reviewed,
+  // so they carry its ETag instead of the stale one that caused the conflict.
+  private async requeue(
+    conflict: SyncConflict,
+    payload: unknown,
+    serverVersion?: OfflineEntity | null
+  ): Promise<void> {
+    const outboxId = await this.indexedDb.addToOutbox({
+      url: conflict.url,
+      method: conflict.method,
+      payload,
+      ...pickRequestOptions(conflict),
+      timestamp: Date.now(),
+      ifMatch: serverVersion ? createEtag(serverVersion.version) : undefined,
+      // A resolved conflict is a new write, not a replay of the rejected one.
+      idempotencyKey: generateIdempotencyKey(),
+    });
+    this.logger.info('CONFLICT', 'Re-queued', {
+      method: conflict.method,
+      url: conflict.url,
+      id: outboxId,
+    });
+
+    await this.removeConflict(conflict);
+    this.syncService.triggerSync();
+  }
+
+  private async removeConflict(conflict: SyncConflict): Promise<void> {
+    if (conflict.id) {
+      await this.indexedDb.removeSyncConflict(conflict.id);
+    }
+  }
+
+  // Lists each affected entity once, so many conflicts cost one request per entity.
+  private async loadServerRecords(
+    conflicts: SyncConflict[]
+  ): Promise<Map<SyncConflict, OfflineEntity[]>> {
+    const byRepository = new Map<OfflineRepository<OfflineEntity>, OfflineEntity[]>();
+    const result = new Map<SyncConflict, OfflineEntity[]>();
+
+    for (const conflict of conflicts) {
+      const repository = this.findRepository(conflict.url);
+      if (!repository) {
+        continue;
+      }
+      if (!byRepository.has(repository)) {
+        byRepository.set(repository, await repository.list());
+      }
+      result.set(conflict, byRepository.get(repository)!);
+    }
+
+    return result;
+  }
+
+  private findRepository(url: string): OfflineRepository<OfflineEntity> | null {
+    const entities = this.repositories.map(function (repository) {
+      return repository.entity;
+    });
+    const entity = findEntityForUrl(url, entities);
+    const repository = this.repositories.find(function (candidate) {
+      return candidate.entity === entity;
+    });
+    return repository || null;
+  }
+}
@@ -0,0 +1,58 @@
+import { DEFAULT_ENCRYPTION_CONFIG } from '../utils/crypto.utils';
+import { EncryptionService } from './encryption.service';
+import { LoggerService } from './logger.service';
+
+const PIN = '123456';
+
+function createEncryption(): EncryptionService {
+  return new EncryptionService(
+    { ...DEFAULT_ENCRYPTION_CONFIG, iterations: 1000 },
+    new LoggerService([])
+  );
+}
+
+describe('EncryptionService key rotation', () => {
+  let encryption: EncryptionService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    encryption = createEncryption();
+    await encryption.setup(PIN);
+  });
+
+  it('should keep an inactive key while a record still uses it', async () => {
+    const old = await encryption.encrypt({ note: 'Walk' });
+    await encryption.beginKeyRotation();
+
+    encryption.retireUnusedKeys(new Set([old.kid]));
+
+    const reopened = createEncryption();
+    await reopened.unlock(PIN);
+    expect(await reopened.decrypt(old)).toEqual({ note: 'Walk' });
+  });
+
+  it('should retire an inactive key once no record uses it', async () => {
+    const old = await encryption.encrypt({ note: 'Walk' });
+    await encryption.beginKeyRotation();
+
+    encryption.retireUnusedKeys(new Set());
+
+    const reopened = createEncryption();
+    await reopened.unlock(PIN);
+    await expect(reopened.decrypt(old)).rejects.toThrow(`Unknown encryption key: ${old.kid}`);
+    expect(await reopened.decrypt(await reopened.encrypt('x'))).toBe('x');
+  });
+
+  it('should keep records and lookup hashes readable after a PIN change', async () => {
+    const sealed = await encryption.encrypt({ note: 'Walk' });
+    const hash = await encryption.hash('/api/session-notes?clientName=Ann');
+
+    await encryption.changePassphrase(PIN, '999999');
+
+    const reopened = createEncryption();
+    expect((await reopened.unlock(PIN)).unlocked).toBe(false);
+    expect((await reopened.unlock('999999')).unlocked).toBe(true);
+    expect(await reopened.decrypt(sealed)).toEqual({ note: 'Walk' });
+    expect(await reopened.hash('/api/session-notes?clientName=Ann')).toBe(hash);
+  });
+});
@@ -0,0 +1,375 @@
+import { Injectable, InjectionToken, Inject } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, firstValueFrom } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import {
+  EncryptionConfig,
+  DEFAULT_ENCRYPTION_CONFIG,
+  EncryptedPayload,
+  WrappedKey,
+  generateSalt,
+  generateKeyId,
+  deriveWrappingKey,
+  generateWrappedKey,
+  unwrapKey,
+  rewrapKey,
+  KeyPurpose,
+  encryptJson,
+  decryptJson,
+  hashValue,
+} from '../utils/crypto.utils';
+import { describeError } from '../utils/log.utils';
+import { LoggerService } from './logger.service';
+
+export const ENCRYPTION_CONFIG = new InjectionToken<EncryptionConfig>('ENCRYPTION_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_ENCRYPTION_CONFIG,
+});
+
+export type EncryptionState = 'disabled' | 'setup-required' | 'locked' | 'unlocked';
+
+export interface UnlockResult {
+  unlocked: boolean;
+  remainingAttempts: number;
+  wiped: boolean;
+}
+
+// Only the salt and the wrapped keys are persisted; neither is usable without the passphrase.
+interface KeyStore {
+  salt: string;
+  iterations: number;
+  activeKeyId: string;
+  keys: Record<string, WrappedKey>;
+  // HMAC key for lookup hashes, per data key id. Created on first use in older key stores.
+  hashKeys?: Record<string, WrappedKey>;
+  failedAttempts: number;
+}
+
+const STORAGE_KEY = 'offline-first-keystore';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class EncryptionService {
+  private stateSubject: BehaviorSubject<EncryptionState>;
+  private wipeSubject = new Subject<void>();
+  private wrappingKey: CryptoKey | null = null;
+  private dataKeys = new Map<string, CryptoKey>();
+  private hashKeys = new Map<string, CryptoKey>();
+
+  constructor(
+    @Inject(ENCRYPTION_CONFIG) private config: EncryptionConfig,
+    private logger: LoggerService
+  ) {
+    this.stateSubject = new BehaviorSubject<EncryptionState>(this.getInitialState());
+  }
+
+  get state$(): Observable<EncryptionState> {
+    return this.stateSubject.asObservable();
+  }
+
+  get state(): EncryptionState {
+    return this.stateSubject.value;
+  }
+
+  // Emits after too many failed unlocks, once the key store has been destroyed.
+  get wiped$(): Observable<void> {
+    return this.wipeSubject.asObservable();
+  }
+
+  get isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  get activeKeyId(): string | null {
+    const keyStore = this.loadKeyStore();
+    return keyStore ? keyStore.activeKeyId : null;
+  }
+
+  async whenUnlocked(): Promise<void> {
+    await firstValueFrom(
+      this.state$.pipe(
+        filter(function (state) {
+          return state === 'unlocked' || state === 'disabled';
+        })
+      )
+    );
+  }
+
+  async setup(passphrase: string): Promise<void> {
+    if (this.loadKeyStore()) {
+      throw new Error('Encryption is already set up');
+    }
+
+    const salt = generateSalt();
+    const wrappingKey = await deriveWrappingKey(passphrase, salt, this.config.iterations);
+    const keyId = generateKeyId();
+    const dataKey = await generateWrappedKey('data', wrappingKey);
+    const hashKey = await generateWrappedKey('hash', wrappingKey);
+
+    this.saveKeyStore({
+      salt,
+      iterations: this.config.iterations,
+      activeKeyId: keyId,
+      keys: { [keyId]: dataKey.wrapped },
+      hashKeys: { [keyId]: hashKey.wrapped },
+      failedAttempts: 0,
+    });
+
+    this.wrappingKey = wrappingKey;
+    this.dataKeys = new Map([[keyId, dataKey.key]]);
+    this.hashKeys = new Map([[keyId, hashKey.key]]);
+    this.logger.info('CRYPTO', 'Encryption set up', { keyId });
+    this.stateSubject.next('unlocked');
+  }
+
+  async unlock(passphrase: string): Promise<UnlockResult> {
+    const keyStore = this.loadKeyStore();
+    if (!keyStore) {
+      throw new Error('Encryption has not been set up');
+    }
+
+    try {
+      const wrappingKey = await deriveWrappingKey(passphrase, keyStore.salt, keyStore.iterations);
+      this.dataKeys = await this.unwrapAll(keyStore, wrappingKey);
+      this.wrappingKey = wrappingKey;
+    } catch (error) {
+      return this.recordFailedAttempt(keyStore);
+    }
+
+    this.saveKeyStore({ ...keyStore, failedAttempts: 0 });
+    this.logger.info('CRYPTO', 'Unlocked');
+    this.stateSubject.next('unlocked');
+    return { unlocked: true, remainingAttempts: this.config.maxFailedAttempts, wiped: false };
+  }
+
+  lock(): void {
+    if (this.state !== 'unlocked') {
+      return;
+    }
+
+    this.wrappingKey = null;
+    this.dataKeys.clear();
+    this.hashKeys.clear();
+    this.logger.info('CRYPTO', 'Locked');
+    this.stateSubject.next('locked');
+  }
+
+  async changePassphrase(current: string, next: string): Promise<void> {
+    const keyStore = this.requireKeyStore();
+    const currentKey = await deriveWrappingKey(current, keyStore.salt, keyStore.iterations);
+    const salt = generateSalt();
+    const wrappingKey = await deriveWrappingKey(next, salt, this.config.iterations);
+
+    // Rejects, before anything is saved, when the current passphrase is wrong.
+    const keys = await this.rewrapAll(keyStore.keys, currentKey, wrappingKey, 'data');
+    const hashKeys = await this.rewrapAll(keyStore.hashKeys || {}, currentKey, wrappingKey, 'hash');
+
+    this.saveKeyStore({
+      ...keyStore,
+      salt,
+      iterations: this.config.iterations,
+      keys,
+      hashKeys,
+      failedAttempts: 0,
+    });
+
+    this.wrappingKey = wrappingKey;
+    this.logger.info('CRYPTO', 'Passphrase changed');
+  }
+
+  // Adds a fresh data key and makes it active. Old keys stay until retireUnusedKeys()
+  // so records written under them remain readable until they are re-encrypted.
+  async beginKeyRotation(): Promise<string> {
+    const keyStore = this.requireKeyStore();
+    const wrappingKey = this.requireWrappingKey();
+    const keyId = generateKeyId();
+    const dataKey = await generateWrappedKey('data', wrappingKey);
+    const hashKey = await generateWrappedKey('hash', wrappingKey);
+
+    this.saveKeyStore({
+      ...keyStore,
+      activeKeyId: keyId,
+      keys: { ...keyStore.keys, [keyId]: dataKey.wrapped },
+      hashKeys: { ...keyStore.hashKeys, [keyId]: hashKey.wrapped },
+    });
+    this.dataKeys.set(keyId, dataKey.key);
+    this.hashKeys.set(keyId, hashKey.key);
+
+    this.logger.info('CRYPTO', 'Rotated data key', { keyId });
+    return keyId;
+  }
+
+  // Drops every inactive key that no stored record still uses. Call it only after a
+  // completed reseal, under KEY_ROTATION_LOCK.
+  retireUnusedKeys(keyIdsInUse: Set<string>): void {
+    const keyStore = this.loadKeyStore();
+    if (!keyStore) {
+      return;
+    }
+
+    const retired = Object.keys(keyStore.keys).filter(function (keyId) {
+      return keyId !== keyStore.activeKeyId && !keyIdsInUse.has(keyId);
+    });
+    if (retired.length === 0) {
+      return;
+    }
+
+    const keys = { ...keyStore.keys };
+    const hashKeys = { ...keyStore.hashKeys };
+    const self = this;
+    retired.forEach(function (keyId) {
+      delete keys[keyId];
+      delete hashKeys[keyId];
+      self.dataKeys.delete(keyId);
+      self.hashKeys.delete(keyId);
+    });
+    this.saveKeyStore({ ...keyStore, keys, hashKeys });
+    this.logger.info('CRYPTO', 'Retired data keys', { count: retired.length });
+  }
+
+  async encrypt(value: any): Promise<EncryptedPayload> {
+    const keyId = this.requireKeyStore().activeKeyId;
+    return encryptJson(value, await this.getDataKey(keyId), keyId);
+  }
+
+  async decrypt(payload: EncryptedPayload): Promise<any> {
+    return decryptJson(payload, await this.getDataKey(payload.kid));
+  }
+
+  // Keyed hash under the active key, for values that must stay usable as lookup keys.
+  // Hashes change with each key rotation.
+  async hash(value: string): Promise<string> {
+    const keyId = this.requireKeyStore().activeKeyId;
+    return hashValue(value, await this.getHashKey(keyId));
+  }
+
+  private async getDataKey(keyId: string): Promise<CryptoKey> {
+    const known = this.dataKeys.get(keyId);
+    if (known) {
+      return known;
+    }
+
+    // Another tab may have rotated the key since this one unlocked.
+    const keyStore = this.requireKeyStore();
+    const wrapped = keyStore.keys[keyId];
+    if (!wrapped) {
+      throw new Error(`Unknown encryption key: ${keyId}`);
+    }
+
+    const dataKey = await unwrapKey(wrapped, this.requireWrappingKey(), 'data');
+    this.dataKeys.set(keyId, dataKey);
+    return dataKey;
+  }
+
+  private async getHashKey(keyId: string): Promise<CryptoKey> {
+    const known = this.hashKeys.get(keyId);
+    if (known) {
+      return known;
+    }
+
+    const keyStore = this.requireKeyStore();
+    const wrapped = keyStore.hashKeys && keyStore.hashKeys[keyId];
+    if (wrapped) {
+      const hashKey = await unwrapKey(wrapped, this.requireWrappingKey(), 'hash');
+      this.hashKeys.set(keyId, hashKey);
+      return hashKey;
+    }
+
+    // Key stores from before hash keys were kept apart have none yet. Cached responses
+    // hashed the old way simply stop matching.
+    const created = await generateWrappedKey('hash', this.requireWrappingKey());
+    this.saveKeyStore({
+      ...keyStore,
+      hashKeys: { ...keyStore.hashKeys, [keyId]: created.wrapped },
+    });
+    this.hashKeys.set(keyId, created.key);
+    this.logger.info('CRYPTO', 'Created lookup hash key', { keyId });
+    return created.key;
+  }
+
+  private recordFailedAttempt(keyStore: KeyStore): UnlockResult {
+    const failedAttempts = keyStore.failedAttempts + 1;
+    const remainingAttempts = Math.max(this.config.maxFailedAttempts - failedAttempts, 0);
+    this.logger.warn('CRYPTO', 'Unlock failed', { remainingAttempts });
+
+    if (remainingAttempts === 0 && this.config.wipeOnMaxFailures) {
+      this.wipe();
+      return { unlocked: false, remainingAttempts: 0, wiped: true };
+    }
+
+    this.saveKeyStore({ ...keyStore, failedAttempts });
+    return { unlocked: false, remainingAttempts, wiped: false };
+  }
+
+  // Dropping the wrapped keys makes every sealed record unreadable; listeners
+  // on wiped$ remove the ciphertext itself.
+  private wipe(): void {
+    this.logger.warn('CRYPTO', 'Too many failed unlocks, wiping local data');
+    localStorage.removeItem(STORAGE_KEY);
+    this.wrappingKey = null;
+    this.dataKeys.clear();
+    this.hashKeys.clear();
+    this.stateSubject.next('setup-required');
+    this.wipeSubject.next();
+  }
+
+  private async unwrapAll(
+    keyStore: KeyStore,
+    wrappingKey: CryptoKey
+  ): Promise<Map<string, CryptoKey>> {
+    const dataKeys = new Map<string, CryptoKey>();
+    for (const keyId of Object.keys(keyStore.keys)) {
+      dataKeys.set(keyId, await unwrapKey(keyStore.keys[keyId], wrappingKey, 'data'));
+    }
+    return dataKeys;
+  }
+
+  private async rewrapAll(
+    wrappedKeys: Record<string, WrappedKey>,
+    currentKey: CryptoKey,
+    nextKey: CryptoKey,
+    purpose: KeyPurpose
+  ): Promise<Record<string, WrappedKey>> {
+    const keys: Record<string, WrappedKey> = {};
+    for (const keyId of Object.keys(wrappedKeys)) {
+      keys[keyId] = await rewrapKey(wrappedKeys[keyId], currentKey, nextKey, purpose);
+    }
+    return keys;
+  }
+
+  private requireKeyStore(): KeyStore {
+    const keyStore = this.loadKeyStore();
+    if (!keyStore) {
+      throw new Error('Encryption has not been set up');
+    }
+    return keyStore;
+  }
+
+  private requireWrappingKey(): CryptoKey {
+    if (!this.wrappingKey) {
+      throw new Error('Encryption is locked');
+    }
+    return this.wrappingKey;
+  }
+
+  private getInitialState(): EncryptionState {
+    if (!this.config.enabled) {
+      return 'disabled';
+    }
+    return this.loadKeyStore() ? 'locked' : 'setup-required';
+  }
+
+  private loadKeyStore(): KeyStore | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      this.logger.error('CRYPTO', 'Could not read key store', { error: describeError(error) });
+      return null;
+    }
+  }
+
+  private saveKeyStore(keyStore: KeyStore): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keyStore));
+  }
+}
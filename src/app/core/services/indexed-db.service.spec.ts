@@ -0,0 +1,244 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { HttpParams } from '@angular/common/http';
+import { EMPTY, of } from 'rxjs';
+import { openDB } from 'idb';
+import { SessionNote } from '../models';
+import { SESSION_NOTES_ENTITY } from '../utils/entity.utils';
+import { parseRecordQuery } from '../utils/query.utils';
+import { LATEST_DB_VERSION } from '../utils/db-migrations.utils';
+import {
+  EncryptedPayload,
+  decryptJson,
+  deriveWrappingKey,
+  encryptJson,
+  generateSalt,
+  generateWrappedKey,
+  hashValue,
+} from '../utils/crypto.utils';
+import { createIndexedDbService } from '../testing/service-stubs';
+import { EncryptionService } from './encryption.service';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+
+const logger = new LoggerService([]);
+
+function createNote(id: string, clientName: string, shiftDate: string, note: string): SessionNote {
+  return { id, clientName, note, shiftDate, timestamp: Number(id), version: 1 };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function query(values: Record<string, string>) {
+  return parseRecordQuery(SESSION_NOTES_ENTITY, new HttpParams({ fromObject: values }));
+}
+
+describe('IndexedDbService.queryRecords', () => {
+  let db: IndexedDbService;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    db = createIndexedDbService(logger);
+
+    // Replaces the sample notes written on first open.
+    for (const existing of await db.getAllRecords(SESSION_NOTES_ENTITY)) {
+      await db.deleteRecord(SESSION_NOTES_ENTITY, existing.id);
+    }
+    const notes = [
+      createNote('101', 'Ann', '2026-03-01', 'Morning walk'),
+      createNote('102', 'Bob', '2026-03-02', 'Medication given'),
+      createNote('103', 'Ann', '2026-03-02', 'Medication and lunch'),
+      createNote('104', 'Ann', '2026-03-05', 'Walk to the park'),
+      createNote('105', 'Cy', '2026-03-06', 'Quiet day'),
+    ];
+    for (const note of notes) {
+      await db.putRecord(SESSION_NOTES_ENTITY, note);
+    }
+  });
+
+  it('should page through a shift date range in index order', async () => {
+    const first = await db.queryRecords<SessionNote>(
+      SESSION_NOTES_ENTITY,
+      query({ from: '2026-03-02', to: '2026-03-05', order: 'asc', limit: '2' })
+    );
+    const second = await db.queryRecords<SessionNote>(
+      SESSION_NOTES_ENTITY,
+      query({
+        from: '2026-03-02',
+        to: '2026-03-05',
+        order: 'asc',
+        limit: '2',
+        cursor: first.nextCursor!,
+      })
+    );
+
+    expect(first.items.map((note) => note.id)).toEqual(['102', '103']);
+    expect(second.items.map((note) => note.id)).toEqual(['104']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should combine a client filter with full-text search', async () => {
+    const page = await db.queryRecords<SessionNote>(
+      SESSION_NOTES_ENTITY,
+      query({ clientName: 'ann', q: 'walk' })
+    );
+
+    expect(page.items.map((note) => note.id)).toEqual(['104', '101']);
+  });
+
+  it('should keep paging past records the filter skips', async () => {
+    const first = await db.queryRecords<SessionNote>(
+      SESSION_NOTES_ENTITY,
+      query({ clientName: 'Ann', limit: '1' })
+    );
+    const second = await db.queryRecords<SessionNote>(
+      SESSION_NOTES_ENTITY,
+      query({ clientName: 'Ann', limit: '1', cursor: first.nextCursor! })
+    );
+
+    expect(first.items.map((note) => note.id)).toEqual(['104']);
+    expect(second.items.map((note) => note.id)).toEqual(['103']);
+    expect(second.nextCursor).not.toBeNull();
+  });
+
+  it('should reject ordering by a field without an index', async () => {
+    await expect(
+      db.queryRecords(SESSION_NOTES_ENTITY, query({ sort: 'clientName' }))
+    ).rejects.toThrow('unindexed');
+  });
+});
+
+describe('IndexedDbService.watchRecords', () => {
+  let db: IndexedDbService;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    db = createIndexedDbService(logger);
+    await db.init();
+  });
+
+  it('should re-emit after local writes, including queued ones', async () => {
+    const emissions: SessionNote[][] = [];
+    const subscription = db
+      .watchRecords<SessionNote>(SESSION_NOTES_ENTITY, query({ clientName: 'Ann' }))
+      .subscribe((notes) => emissions.push(notes));
+    await wait(50);
+
+    await db.putRecord(SESSION_NOTES_ENTITY, createNote('101', 'Ann', '2026-03-01', 'Walk'));
+    await db.addToOutbox({
+      url: '/api/session-notes',
+      method: 'POST',
+      payload: { id: 'temp-1', clientName: 'Ann', note: 'Queued', shiftDate: '2026-03-02' },
+      timestamp: 200,
+    });
+    await wait(100);
+    subscription.unsubscribe();
+
+    expect(emissions[0]).toEqual([]);
+    expect(emissions[emissions.length - 1].map((note) => note.id)).toEqual(['temp-1', '101']);
+  });
+});
+
+describe('IndexedDbService.appendLogs', () => {
+  let db: IndexedDbService;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    db = createIndexedDbService(logger);
+    await db.init();
+  });
+
+  it('should keep only the newest entries', async () => {
+    const entries = [1, 2, 3, 4, 5].map((n) => ({
+      level: 'info' as const,
+      source: 'SYNC',
+      event: 'message' as const,
+      message: `Entry ${n}`,
+      timestamp: n,
+    }));
+
+    await db.appendLogs(entries.slice(0, 3), 4);
+    await db.appendLogs(entries.slice(3), 4);
+
+    const logs = await db.getLogs();
+    expect(logs.map((entry) => entry.timestamp)).toEqual([2, 3, 4, 5]);
+  });
+});
+
+describe('IndexedDbService cache encryption', () => {
+  let db: IndexedDbService;
+  let decrypt: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    const wrappingKey = await deriveWrappingKey('123456', generateSalt(), 1000);
+    const { key: dataKey } = await generateWrappedKey('data', wrappingKey);
+    const { key: hashKey } = await generateWrappedKey('hash', wrappingKey);
+    decrypt = vi.fn((payload: EncryptedPayload) => decryptJson(payload, dataKey));
+    const enabledEncryption = {
+      state$: of('unlocked'),
+      wiped$: EMPTY,
+      isEnabled: true,
+      activeKeyId: 'k1',
+      whenUnlocked: () => Promise.resolve(),
+      retireUnusedKeys: () => {},
+      encrypt: (value: any) => encryptJson(value, dataKey, 'k1'),
+      decrypt,
+      hash: (value: string) => hashValue(value, hashKey),
+    } as unknown as EncryptionService;
+    db = createIndexedDbService(logger, enabledEncryption);
+    await db.init();
+  });
+
+  it('should not store query strings from cache keys in cleartext', async () => {
+    const key = 'anonymous|/api/session-notes?clientName=Ann&q=insulin|';
+    await db.cacheGet(key, [{ id: '1' }], { url: '/api/session-notes?clientName=Ann' });
+
+    const raw = await openDB('offline-first-db');
+    const stored = JSON.stringify(await raw.getAll('cache'));
+    raw.close();
+
+    expect(stored).not.toContain('Ann');
+    expect(stored).not.toContain('insulin');
+    expect(await db.getCached(key)).toEqual([{ id: '1' }]);
+  });
+
+  it('should read cache bookkeeping without decrypting entries', async () => {
+    await db.cacheGet('anonymous|/api/session-notes|', [{ id: '1' }], {
+      url: '/api/session-notes',
+      policy: 'notes',
+    });
+    decrypt.mockClear();
+
+    const [stats] = await db.getCacheEntryStats();
+
+    expect(decrypt).not.toHaveBeenCalled();
+    expect(stats).toEqual(expect.objectContaining({ policy: 'notes', size: expect.any(Number) }));
+    expect(stats.key).not.toContain('/api/session-notes');
+  });
+});
+
+describe('IndexedDbService.init', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('should refuse to open, not rebuild, a database with missing stores', async () => {
+    const damaged = await openDB('offline-first-db', LATEST_DB_VERSION, {
+      upgrade(upgradeDb) {
+        upgradeDb.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+      },
+    });
+    await damaged.add('outbox', { url: '/api/session-notes', method: 'POST', timestamp: 1 });
+    damaged.close();
+
+    const db = createIndexedDbService(logger);
+    await expect(db.init()).rejects.toThrow('missing stores');
+
+    const raw = await openDB('offline-first-db');
+    expect(await raw.count('outbox')).toBe(1);
+    raw.close();
+  });
+});
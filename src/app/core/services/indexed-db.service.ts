@@ -1,87 +1,544 @@
 import { Injectable } from '@angular/core';
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { OutboxItem, SyncConflict, CacheItem, SessionNote } from '../models';
+import { Observable, Subject, EMPTY, from } from 'rxjs';
+import { catchError, debounceTime, filter, startWith, switchMap } from 'rxjs/operators';
+import { openDB, deleteDB, DBSchema, IDBPDatabase, IndexNames, StoreNames } from 'idb';
+import {
+  OutboxItem,
+  SyncConflict,
+  CacheItem,
+  SessionNote,
+  OfflineEntity,
+  EntityDefinition,
+  IdMapping,
+  DataChange,
+  EntityChange,
+  SyncMeta,
+  IdempotencyRecord,
+  QueryPage,
+  RecordQuery,
+  Attachment,
+  AttachmentData,
+  AttachmentStatus,
+  ServerAttachment,
+  LogEntry,
+} from '../models';
+import { KEY_ROTATION_LOCK, TabCoordinationService } from './tab-coordination.service';
+import { EncryptionService } from './encryption.service';
+import { BackgroundSyncService } from './background-sync.service';
+import { LoggerService } from './logger.service';
+import {
+  applyPendingMutations,
+  rewriteOutboxItemId,
+  rewriteOutboxItemVersion,
+} from '../utils/outbox.utils';
+import { CacheEntryStats, estimateSize } from '../utils/cache-eviction.utils';
+import { describeError } from '../utils/log.utils';
+import { SealedRecord, isSealedRecord, splitRecord } from '../utils/crypto.utils';
+import {
+  LATEST_DB_VERSION,
+  UpgradeDatabase,
+  UpgradeTransaction,
+  upgradeDatabase,
+} from '../utils/db-migrations.utils';
+import {
+  ENTITY_DEFINITIONS,
+  EntityStoreName,
+  getCleartextFields,
+  sortByNewest,
+} from '../utils/entity.utils';
+import {
+  DEFAULT_PAGE_SIZE,
+  QueryCursor,
+  applyPendingMutationsToPage,
+  buildKeyRange,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  findIndexForField,
+  isAfterCursor,
+  matchesRecordQuery,
+  needsRecordFilter,
+} from '../utils/query.utils';
 
-interface OfflineFirstDB extends DBSchema {
+type Stored<T> = T | SealedRecord<T>;
+
+export interface QueueCounts {
+  pending: number;
+  conflicts: number;
+}
+
+// One store per entry in ENTITY_DEFINITIONS, keyed and indexed as its definition says.
+type EntityStores = {
+  [S in EntityStoreName]: {
+    key: string;
+    value: Stored<OfflineEntity>;
+    indexes: Record<string, IDBValidKey>;
+  };
+};
+
+interface OfflineFirstDB extends DBSchema, EntityStores {
   outbox: {
     key: number;
-    value: OutboxItem;
-    indexes: { 'by-timestamp': number };
+    value: Stored<OutboxItem>;
+    indexes: { 'by-timestamp': number; 'by-order': number };
   };
   syncConflicts: {
     key: number;
-    value: SyncConflict;
+    value: Stored<SyncConflict>;
     indexes: { 'by-timestamp': number };
   };
   cache: {
     key: string;
-    value: CacheItem;
+    value: Stored<CacheItem>;
+    indexes: { 'by-timestamp': number; 'by-scope': string };
+  };
+  idMappings: {
+    key: string;
+    value: IdMapping;
+    indexes: { 'by-serverId': string };
+  };
+  syncMeta: {
+    key: string;
+    value: SyncMeta;
+  };
+  // Change log kept by the mock API in ApiInterceptor to serve the delta feed.
+  serverChangeLog: {
+    key: number;
+    value: Stored<EntityChange>;
+    indexes: { 'by-noteId': string };
+  };
+  // Responses the mock API already sent, keyed by the client's Idempotency-Key.
+  idempotencyRecords: {
+    key: string;
+    value: Stored<IdempotencyRecord>;
     indexes: { 'by-timestamp': number };
   };
-  sessionNotes: {
+  attachments: {
     key: string;
-    value: SessionNote;
-    indexes: { 'by-timestamp': number; 'by-shiftDate': string };
+    value: Stored<Attachment>;
+    indexes: { 'by-timestamp': number; 'by-status': AttachmentStatus };
   };
+  // File contents, kept apart so listing attachments does not decrypt every photo.
+  attachmentData: {
+    key: string;
+    value: Stored<AttachmentData>;
+  };
+  // Uploads received by the mock API in ApiInterceptor.
+  serverAttachments: {
+    key: string;
+    value: Stored<ServerAttachment>;
+  };
+  // Ring buffer of diagnostic entries written by LogBufferService, oldest first.
+  logs: {
+    key: number;
+    value: Stored<LogEntry>;
+  };
+}
+
+function getEntityCleartextFields(): Record<EntityStoreName, readonly string[]> {
+  const fields = {} as Record<EntityStoreName, readonly string[]>;
+  ENTITY_DEFINITIONS.forEach(function (entity) {
+    fields[entity.storeName] = getCleartextFields(entity);
+  });
+  return fields;
 }
 
+type SealedStoreName = Extract<
+  StoreNames<OfflineFirstDB>,
+  | 'outbox'
+  | 'syncConflicts'
+  | 'cache'
+  | EntityStoreName
+  | 'serverChangeLog'
+  | 'idempotencyRecords'
+  | 'attachments'
+  | 'attachmentData'
+  | 'serverAttachments'
+  | 'logs'
+>;
+
+// Fields left readable in sealed records because they back keys, indexes or
+// cache bookkeeping. Everything else, including client names and notes, is encrypted.
+// Cache keys carry query strings (search terms, client filters), so they are stored
+// as keyed hashes; see toStoredCacheKey.
+const CLEARTEXT_FIELDS: Record<SealedStoreName, readonly string[]> = {
+  outbox: ['id', 'timestamp', 'order'],
+  syncConflicts: ['id', 'timestamp'],
+  cache: ['key', 'scope', 'policy', 'timestamp', 'lastAccessed', 'size'],
+  ...getEntityCleartextFields(),
+  serverChangeLog: ['seq', 'store', 'id', 'type', 'timestamp'],
+  idempotencyRecords: ['key', 'timestamp'],
+  attachments: ['id', 'status', 'timestamp'],
+  attachmentData: ['id'],
+  serverAttachments: ['id', 'timestamp'],
+  logs: ['id', 'level', 'event', 'timestamp'],
+};
+
+const SEALED_STORES = Object.keys(CLEARTEXT_FIELDS) as SealedStoreName[];
+
+const ENTITY_STORES: EntityStoreName[] = ENTITY_DEFINITIONS.map(function (entity) {
+  return entity.storeName;
+});
+
+const QUERY_BATCH_SIZE = 50;
+
+// Bursts of writes (a sync applying a page of changes) trigger one re-read.
+const LIVE_QUERY_DEBOUNCE_MS = 50;
+
+// Stores the service worker writes to when it drains the outbox.
+const WORKER_WRITTEN_STORES: StoreNames<OfflineFirstDB>[] = [
+  'outbox',
+  'syncConflicts',
+  'idMappings',
+  ...ENTITY_STORES,
+];
+
+const REQUIRED_STORES: StoreNames<OfflineFirstDB>[] = [
+  ...SEALED_STORES,
+  'idMappings',
+  'syncMeta',
+];
+
 @Injectable({
   providedIn: 'root',
 })
 export class IndexedDbService {
   private dbName = 'offline-first-db';
-  private dbVersion = 3;
+  private dbVersion = LATEST_DB_VERSION;
   private db: IDBPDatabase<OfflineFirstDB> | null = null;
+  private initPromise: Promise<void> | null = null;
+  private changeSubject = new Subject<DataChange>();
+
+  constructor(
+    private tabCoordination: TabCoordinationService,
+    private encryption: EncryptionService,
+    private backgroundSync: BackgroundSyncService,
+    private logger: LoggerService
+  ) {
+    this.listenForRemoteChanges();
+    this.listenForWorkerSync();
+    this.listenForEncryptionChanges();
+  }
+
+  get changes$(): Observable<DataChange> {
+    return this.changeSubject.asObservable();
+  }
+
+  private listenForRemoteChanges(): void {
+    const self = this;
+    this.tabCoordination.messages$.subscribe(function (message) {
+      if (message.type === 'data-changed') {
+        self.changeSubject.next({ ...message.payload, source: 'remote' });
+      }
+    });
+  }
+
+  // The worker writes without going through this service, so its changes are announced here.
+  private listenForWorkerSync(): void {
+    const self = this;
+    this.backgroundSync.messages$
+      .pipe(
+        filter(function (message) {
+          return message.type === 'OUTBOX_SYNCED';
+        })
+      )
+      .subscribe(function () {
+        WORKER_WRITTEN_STORES.forEach(function (store) {
+          self.changeSubject.next({ store, source: 'remote', timestamp: Date.now() });
+        });
+      });
+  }
+
+  // Emits the current result straight away, then again whenever one of `stores`
+  // changes in this tab, another tab or the service worker.
+  private watch<T>(stores: string[], read: () => Promise<T>): Observable<T> {
+    const self = this;
+    return this.changes$.pipe(
+      filter(function (change) {
+        return stores.includes(change.store);
+      }),
+      debounceTime(LIVE_QUERY_DEBOUNCE_MS),
+      startWith(null),
+      switchMap(function () {
+        return from(read()).pipe(
+          catchError(function (error) {
+            self.logger.error('DB', 'Live query failed', {
+              stores,
+              error: describeError(error),
+            });
+            return EMPTY;
+          })
+        );
+      })
+    );
+  }
+
+  // Records as the user sees them: the entity store with queued outbox writes
+  // applied on top. A query limits the result to its first page.
+  watchRecords<T extends OfflineEntity>(
+    entity: EntityDefinition,
+    query: RecordQuery | null = null
+  ): Observable<T[]> {
+    const self = this;
+    return this.watch([entity.storeName, 'outbox'], async function () {
+      const outboxItems = await self.getOutbox();
+      if (!query) {
+        const records = await self.getAllRecords<T>(entity);
+        return applyPendingMutations(entity.basePath, records, outboxItems) as T[];
+      }
+      const page = await self.queryRecords<T>(entity, query);
+      return applyPendingMutationsToPage(entity, query, page, outboxItems).items;
+    });
+  }
+
+  watchOutbox(): Observable<OutboxItem[]> {
+    const self = this;
+    return this.watch(['outbox'], function () {
+      return self.getOutbox();
+    });
+  }
+
+  watchQueueCounts(): Observable<QueueCounts> {
+    const self = this;
+    return this.watch(['outbox', 'syncConflicts'], function () {
+      return self.getQueueCounts();
+    });
+  }
+
+  watchSyncMeta(key: string): Observable<any | null> {
+    const self = this;
+    return this.watch(['syncMeta'], function () {
+      return self.getSyncMeta(key);
+    });
+  }
+
+  watchSyncConflicts(): Observable<SyncConflict[]> {
+    const self = this;
+    return this.watch(['syncConflicts'], function () {
+      return self.getSyncConflicts();
+    });
+  }
+
+  watchAttachments(): Observable<Attachment[]> {
+    const self = this;
+    return this.watch(['attachments'], function () {
+      return self.getAttachments();
+    });
+  }
+
+  watchLogs(): Observable<LogEntry[]> {
+    const self = this;
+    return this.watch(['logs'], function () {
+      return self.getLogs();
+    });
+  }
+
+  private listenForEncryptionChanges(): void {
+    const self = this;
+    this.encryption.state$.subscribe(function (state) {
+      if (state === 'locked') {
+        self.close();
+      }
+    });
+    this.encryption.wiped$.subscribe(function () {
+      self.wipeDatabase().catch(function (err) {
+        self.logger.error('DB', 'Failed to wipe local database', { error: describeError(err) });
+      });
+    });
+  }
 
-  async init(): Promise<void> {
-    if (this.db) {
+  private close(): void {
+    if (!this.db) {
       return;
     }
+    this.db.close();
+    this.db = null;
+    this.initPromise = null;
+  }
+
+  private async wipeDatabase(): Promise<void> {
+    this.close();
+    await deleteDB(this.dbName);
+    this.logger.warn('DB', 'Local database deleted');
+  }
+
+  private notifyChange(store: string): void {
+    const change = { store, timestamp: Date.now() };
+    this.changeSubject.next({ ...change, source: 'local' });
+    this.tabCoordination.publish({ type: 'data-changed', payload: change });
+  }
+
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      const self = this;
+      this.initPromise = this.openDatabase().catch(function (error) {
+        self.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async openDatabase(): Promise<void> {
+    // Nothing can be read or written until the data keys are available.
+    await this.encryption.whenUnlocked();
+
+    this.db = await this.openWithMigrations();
 
-    this.db = await openDB<OfflineFirstDB>(this.dbName, this.dbVersion, {
+    const missingStores = this.findMissingStores(this.db);
+    if (missingStores.length > 0) {
+      // Only reachable if the database was changed outside the migrations. Rebuilding
+      // would drop unsynced writes, so refuse to open and leave the data in place.
+      this.logger.error('DB', 'Stores missing, refusing to open database', {
+        version: this.db.version,
+        missingStores,
+      });
+      this.close();
+      throw new Error(`Local database is missing stores: ${missingStores.join(', ')}`);
+    }
+
+    await this.resealRecordsLocked();
+    await this.initializeSampleData();
+  }
+
+  private openWithMigrations(): Promise<IDBPDatabase<OfflineFirstDB>> {
+    const self = this;
+    return openDB<OfflineFirstDB>(this.dbName, this.dbVersion, {
       upgrade(db, oldVersion, newVersion, transaction) {
-        if (!db.objectStoreNames.contains('outbox')) {
-          const outboxStore = db.createObjectStore('outbox', {
-            keyPath: 'id',
-            autoIncrement: true,
-          });
-          outboxStore.createIndex('by-timestamp', 'timestamp');
-        }
+        upgradeDatabase(
+          db as unknown as UpgradeDatabase,
+          oldVersion,
+          transaction as unknown as UpgradeTransaction,
+          self.logger
+        );
+      },
+      blocking() {
+        // Another tab needs a newer schema; let it upgrade instead of holding it up.
+        self.logger.warn('DB', 'Closing connection for a newer database version');
+        self.close();
+      },
+    });
+  }
 
-        if (!db.objectStoreNames.contains('syncConflicts')) {
-          const conflictsStore = db.createObjectStore('syncConflicts', {
-            keyPath: 'id',
-            autoIncrement: true,
-          });
-          conflictsStore.createIndex('by-timestamp', 'timestamp');
-        }
+  private findMissingStores(db: IDBPDatabase<OfflineFirstDB>): string[] {
+    return REQUIRED_STORES.filter(function (store) {
+      return !db.objectStoreNames.contains(store);
+    });
+  }
+
+  async rotateEncryptionKey(): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const self = this;
+    await this.tabCoordination.runLocked(KEY_ROTATION_LOCK, async function () {
+      await self.encryption.beginKeyRotation();
+      await self.resealRecords();
+    });
+  }
+
+  private resealRecordsLocked(): Promise<void> {
+    if (!this.encryption.isEnabled) {
+      return Promise.resolve();
+    }
+    const self = this;
+    return this.tabCoordination.runLocked(KEY_ROTATION_LOCK, function () {
+      return self.resealRecords();
+    });
+  }
 
-        if (!db.objectStoreNames.contains('cache')) {
-          const cacheStore = db.createObjectStore('cache', {
-            keyPath: 'key',
-          });
-          cacheStore.createIndex('by-timestamp', 'timestamp');
+  // Encrypts records written before encryption was enabled and re-encrypts those
+  // still under an inactive key, so an interrupted rotation finishes on next unlock.
+  // Runs under KEY_ROTATION_LOCK, so no other tab rotates or retires keys meanwhile.
+  private async resealRecords(): Promise<void> {
+    if (!this.encryption.isEnabled) {
+      return;
+    }
+
+    const activeKeyId = this.encryption.activeKeyId;
+    for (const store of SEALED_STORES) {
+      const records: Stored<any>[] = await this.db!.getAll(store);
+      const stale = records.filter(function (record) {
+        return !isSealedRecord(record) || record.sealed.kid !== activeKeyId;
+      });
+      if (stale.length === 0) {
+        continue;
+      }
+
+      // Their keys were hashed under another key (or not at all) and can no
+      // longer be looked up; the cache refills from the network.
+      if (store === 'cache') {
+        const cacheTx = this.db!.transaction('cache', 'readwrite');
+        for (const record of stale) {
+          await cacheTx.store.delete(record.key);
         }
+        await cacheTx.done;
+        this.logger.info('DB', 'Dropped cache entries under a retired key', {
+          count: stale.length,
+        });
+        continue;
+      }
+
+      const resealed = await this.sealAll(store, await this.unsealAll(stale));
+      const tx = this.db!.transaction(store, 'readwrite');
+      for (const record of resealed) {
+        await tx.store.put(record);
+      }
+      await tx.done;
+      this.logger.info('DB', 'Re-encrypted records', { store, count: resealed.length });
+    }
+
+    // Checked again after the reseal: a record another tab wrote under an inactive key
+    // meanwhile keeps that key alive until the next reseal moves it.
+    this.encryption.retireUnusedKeys(await this.findKeyIdsInUse());
+  }
 
-        if (!db.objectStoreNames.contains('sessionNotes')) {
-          const sessionNotesStore = db.createObjectStore('sessionNotes', {
-            keyPath: 'id',
-          });
-          sessionNotesStore.createIndex('by-timestamp', 'timestamp');
-          sessionNotesStore.createIndex('by-shiftDate', 'shiftDate');
+  private async findKeyIdsInUse(): Promise<Set<string>> {
+    const keyIds = new Set<string>();
+    for (const store of SEALED_STORES) {
+      const records: Stored<any>[] = await this.db!.getAll(store);
+      records.forEach(function (record) {
+        if (isSealedRecord(record)) {
+          keyIds.add(record.sealed.kid);
         }
-      },
-    });
+      });
+    }
+    return keyIds;
+  }
 
-    if (!this.db.objectStoreNames.contains('sessionNotes')) {
-      console.error('IndexedDbService: sessionNotes store missing after initialization!');
-      console.error(
-        'IndexedDbService: Please delete the database in DevTools (Application → IndexedDB → offline-first-db) and refresh the page'
-      );
-      throw new Error('sessionNotes store not found - please delete the database and refresh');
+  private async seal<T extends object>(store: SealedStoreName, value: T): Promise<Stored<T>> {
+    if (!this.encryption.isEnabled) {
+      return value;
     }
 
-    await this.initializeSampleData();
+    const { cleartext, secret } = splitRecord(value, CLEARTEXT_FIELDS[store]);
+    return { ...cleartext, sealed: await this.encryption.encrypt(secret) };
+  }
+
+  private sealAll<T extends object>(store: SealedStoreName, values: T[]): Promise<Stored<T>[]> {
+    const self = this;
+    return Promise.all(
+      values.map(function (value) {
+        return self.seal(store, value);
+      })
+    );
+  }
+
+  private async unseal<T>(record: Stored<T>): Promise<T> {
+    if (!isSealedRecord(record)) {
+      return record as T;
+    }
+
+    const { sealed, ...cleartext } = record;
+    return { ...cleartext, ...(await this.encryption.decrypt(sealed)) } as T;
+  }
+
+  private unsealAll<T>(records: Stored<T>[]): Promise<T[]> {
+    const self = this;
+    return Promise.all(
+      records.map(function (record) {
+        return self.unseal(record);
+      })
+    );
   }
 
   private async initializeSampleData(): Promise<void> {
@@ -97,6 +554,8 @@ export class IndexedDbService {
             note: 'Completed daily activities. Client was responsive and engaged.',
             timestamp: Date.now() - 86400000,
             shiftDate: new Date(Date.now() - 86400000).toISOString().split('T')[0],
+            version: 1,
+            updatedAt: Date.now() - 86400000,
           },
           {
             id: '2',
@@ -104,15 +563,18 @@ export class IndexedDbService {
             note: 'Assisted with meal preparation and medication administration.',
             timestamp: Date.now() - 172800000,
             shiftDate: new Date(Date.now() - 172800000).toISOString().split('T')[0],
+            version: 1,
+            updatedAt: Date.now() - 172800000,
           },
         ];
 
-        for (let i = 0; i < sampleNotes.length; i++) {
-          await this.db.add('sessionNotes', sampleNotes[i]);
+        const sealedNotes = await this.sealAll('sessionNotes', sampleNotes);
+        for (let i = 0; i < sealedNotes.length; i++) {
+          await this.db.add('sessionNotes', sealedNotes[i]);
         }
       }
     } catch (error) {
-      console.error('Error initializing sample data:', error);
+      this.logger.error('DB', 'Error initializing sample data', { error: describeError(error) });
     }
   }
 
@@ -126,12 +588,15 @@ export class IndexedDbService {
     await this.init();
     this.ensureDatabaseInitialized();
 
+    const timestamp = item.timestamp || Date.now();
     const outboxItem = {
       ...item,
-      timestamp: item.timestamp || Date.now(),
+      timestamp,
+      order: item.order || timestamp,
     };
 
-    const id = await this.db!.add('outbox', outboxItem);
+    const id = await this.db!.add('outbox', await this.seal('outbox', outboxItem));
+    this.notifyChange('outbox');
 
     return id as number;
   }
@@ -140,8 +605,16 @@ export class IndexedDbService {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    const index = this.db!.transaction('outbox').store.index('by-timestamp');
-    return await index.getAll();
+    const index = this.db!.transaction('outbox').store.index('by-order');
+    return await this.unsealAll(await index.getAll());
+  }
+
+  async updateOutboxItem(item: OutboxItem): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    await this.db!.put('outbox', await this.seal('outbox', item));
+    this.notifyChange('outbox');
   }
 
   async removeFromOutbox(id: number): Promise<void> {
@@ -149,25 +622,89 @@ export class IndexedDbService {
     this.ensureDatabaseInitialized();
 
     await this.db!.delete('outbox', id);
+    this.notifyChange('outbox');
+  }
+
+  // Gives the listed items the queue's existing positions in the new sequence.
+  // `order` is stored in cleartext, so nothing needs to be re-encrypted.
+  async reorderOutbox(orderedIds: number[]): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const tx = this.db!.transaction('outbox', 'readwrite');
+    const items: Stored<OutboxItem>[] = [];
+    for (const id of orderedIds) {
+      const item = await tx.store.get(id);
+      if (item) {
+        items.push(item);
+      }
+    }
+
+    const positions = items
+      .map(function (item) {
+        return item.order || item.timestamp || 0;
+      })
+      .sort(function (a, b) {
+        return a - b;
+      });
+    // Items queued in the same millisecond share a position; spread them apart.
+    for (let i = 1; i < positions.length; i++) {
+      positions[i] = Math.max(positions[i], positions[i - 1] + 1);
+    }
+
+    for (let i = 0; i < items.length; i++) {
+      await tx.store.put({ ...items[i], order: positions[i] });
+    }
+    await tx.done;
+    this.notifyChange('outbox');
+  }
+
+  async applyOutboxCompaction(updatedItems: OutboxItem[], removedIds: number[]): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const sealedItems = await this.sealAll('outbox', updatedItems);
+    const tx = this.db!.transaction('outbox', 'readwrite');
+    for (const item of sealedItems) {
+      await tx.store.put(item);
+    }
+    for (const id of removedIds) {
+      await tx.store.delete(id);
+    }
+    await tx.done;
+    this.notifyChange('outbox');
   }
 
   async addToSyncConflicts(item: Omit<SyncConflict, 'id'>): Promise<number> {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    const id = await this.db!.add('syncConflicts', {
+    const conflict = {
       ...item,
       timestamp: item.timestamp || Date.now(),
-    });
+    };
+    const id = await this.db!.add('syncConflicts', await this.seal('syncConflicts', conflict));
+    this.notifyChange('syncConflicts');
     return id as number;
   }
 
+  // Counted without unsealing, so it stays cheap however large the queue grows.
+  async getQueueCounts(): Promise<QueueCounts> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    return {
+      pending: await this.db!.count('outbox'),
+      conflicts: await this.db!.count('syncConflicts'),
+    };
+  }
+
   async getSyncConflicts(): Promise<SyncConflict[]> {
     await this.init();
     this.ensureDatabaseInitialized();
 
     const index = this.db!.transaction('syncConflicts').store.index('by-timestamp');
-    return await index.getAll();
+    return await this.unsealAll(await index.getAll());
   }
 
   async removeSyncConflict(id: number): Promise<void> {
@@ -175,27 +712,204 @@ export class IndexedDbService {
     this.ensureDatabaseInitialized();
 
     await this.db!.delete('syncConflicts', id);
+    this.notifyChange('syncConflicts');
   }
 
-  async cacheGet(key: string, data: any): Promise<void> {
+  async rewriteOutboxIds(tempId: string, serverId: string): Promise<number> {
+    return this.rewriteOutbox(function (item) {
+      return rewriteOutboxItemId(item, tempId, serverId);
+    });
+  }
+
+  async rewriteOutboxVersions(resourceUrl: string, version: number): Promise<number> {
+    return this.rewriteOutbox(function (item) {
+      return rewriteOutboxItemVersion(item, resourceUrl, version);
+    });
+  }
+
+  private async rewriteOutbox(rewrite: (item: OutboxItem) => OutboxItem): Promise<number> {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    await this.db!.put('cache', {
-      key,
-      data,
+    const items = await this.unsealAll(await this.db!.getAll('outbox'));
+    const updatedItems = items
+      .map(rewrite)
+      .filter(function (updated, index) {
+        return JSON.stringify(updated) !== JSON.stringify(items[index]);
+      });
+
+    if (updatedItems.length === 0) {
+      return 0;
+    }
+
+    const sealedItems = await this.sealAll('outbox', updatedItems);
+    const tx = this.db!.transaction('outbox', 'readwrite');
+    for (const item of sealedItems) {
+      await tx.store.put(item);
+    }
+    await tx.done;
+    this.notifyChange('outbox');
+
+    return updatedItems.length;
+  }
+
+  async addIdMapping(tempId: string, serverId: string): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    await this.db!.put('idMappings', {
+      tempId,
+      serverId,
       timestamp: Date.now(),
     });
   }
 
-  async getCached(key: string): Promise<any | null> {
+  async getIdMapping(tempId: string): Promise<string | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const mapping = await this.db!.get('idMappings', tempId);
+    return mapping ? mapping.serverId : null;
+  }
+
+  async getIdMappings(): Promise<IdMapping[]> {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    const item = await this.db!.get('cache', key);
+    return await this.db!.getAll('idMappings');
+  }
+
+  async cacheGet(
+    key: string,
+    data: any,
+    meta: Pick<CacheItem, 'policy' | 'url' | 'scope'> = {}
+  ): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const now = Date.now();
+    const item: CacheItem = {
+      key: await this.toStoredCacheKey(key),
+      ...meta,
+      data,
+      timestamp: now,
+      lastAccessed: now,
+      size: estimateSize(data),
+    };
+    await this.db!.put('cache', await this.seal('cache', item));
+  }
+
+  async getCached(key: string): Promise<any | null> {
+    const item = await this.getCachedItem(key);
     return item ? item.data : null;
   }
 
+  async getCachedItem(key: string): Promise<CacheItem | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const stored = await this.db!.get('cache', await this.toStoredCacheKey(key));
+    if (!stored) {
+      return null;
+    }
+
+    // lastAccessed is a cleartext field, so the stored record is updated without re-encrypting.
+    const self = this;
+    this.db!.put('cache', { ...stored, lastAccessed: Date.now() }).catch(function (err) {
+      self.logger.error('DB', 'Failed to update cache access time', { error: describeError(err) });
+    });
+    return await this.unseal(stored);
+  }
+
+  private toStoredCacheKey(key: string): Promise<string> {
+    return this.encryption.isEnabled ? this.encryption.hash(key) : Promise.resolve(key);
+  }
+
+  // Items carry their stored keys, which are what deleteCacheEntries expects.
+  async getCacheItems(): Promise<CacheItem[]> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    return await this.unsealAll(await this.db!.getAll('cache'));
+  }
+
+  // Reads only the cleartext bookkeeping fields, so sweeps never decrypt cached responses.
+  async getCacheEntryStats(): Promise<CacheEntryStats[]> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const records = await this.db!.getAll('cache');
+    return records.map(function (record) {
+      return {
+        key: record.key!,
+        timestamp: record.timestamp!,
+        lastAccessed: record.lastAccessed,
+        size: record.size,
+        policy: record.policy,
+      };
+    });
+  }
+
+  async deleteCacheOlderThan(cutoff: number): Promise<number> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const tx = this.db!.transaction('cache', 'readwrite');
+    let cursor = await tx.store.index('by-timestamp').openCursor(IDBKeyRange.upperBound(cutoff));
+    let deleted = 0;
+
+    while (cursor) {
+      await cursor.delete();
+      deleted++;
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+
+    return deleted;
+  }
+
+  async deleteCacheEntries(keys: string[]): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const tx = this.db!.transaction('cache', 'readwrite');
+    for (const key of keys) {
+      await tx.store.delete(key);
+    }
+    await tx.done;
+  }
+
+  async trimCachePolicy(policy: string, maxEntries: number): Promise<number> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const tx = this.db!.transaction('cache', 'readwrite');
+    const items = await tx.store.index('by-timestamp').getAll();
+    const policyItems = items.filter(function (item) {
+      return item.policy === policy;
+    });
+    const excess = policyItems.slice(0, Math.max(policyItems.length - maxEntries, 0));
+
+    for (const item of excess) {
+      await tx.store.delete(item.key!);
+    }
+    await tx.done;
+
+    return excess.length;
+  }
+
+  async clearCacheScope(scope: string): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const tx = this.db!.transaction('cache', 'readwrite');
+    const keys = await tx.store.index('by-scope').getAllKeys(scope);
+    for (const key of keys) {
+      await tx.store.delete(key);
+    }
+    await tx.done;
+  }
+
   async clearCache(): Promise<void> {
     await this.init();
     this.ensureDatabaseInitialized();
@@ -203,86 +917,342 @@ export class IndexedDbService {
     await this.db!.clear('cache');
   }
 
-  private hasSessionNotesStore(): boolean {
-    return this.db !== null && this.db.objectStoreNames.contains('sessionNotes');
+  private getEntityStore(entity: EntityDefinition): EntityStoreName {
+    if (!ENTITY_STORES.includes(entity.storeName as EntityStoreName)) {
+      throw new Error(`No IndexedDB store registered for entity: ${entity.name}`);
+    }
+    return entity.storeName as EntityStoreName;
   }
 
-  private sortNotesByTimestamp(notes: SessionNote[]): SessionNote[] {
-    return notes.sort(function (a, b) {
-      return b.timestamp - a.timestamp;
-    });
+  async getAllRecords<T extends OfflineEntity>(entity: EntityDefinition): Promise<T[]> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const records = await this.db!.getAll(this.getEntityStore(entity));
+    return sortByNewest(await this.unsealAll(records)) as T[];
+  }
+
+  async getRecord<T extends OfflineEntity>(
+    entity: EntityDefinition,
+    id: string
+  ): Promise<T | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const record = await this.db!.get(this.getEntityStore(entity), id);
+    return record ? ((await this.unseal(record)) as T) : null;
   }
 
-  async getSessionNotes(): Promise<SessionNote[]> {
+  // Walks the order field's index for keys first, then reads and decrypts
+  // records in batches: awaiting decryption inside the walk would end its transaction.
+  async queryRecords<T extends OfflineEntity>(
+    entity: EntityDefinition,
+    query: RecordQuery
+  ): Promise<QueryPage<T>> {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    if (!this.hasSessionNotesStore()) {
-      console.error('IndexedDbService: sessionNotes store does not exist!');
-      console.log('IndexedDbService: Available stores:', Array.from(this.db!.objectStoreNames));
-      return [];
+    const indexName = findIndexForField(entity, query.orderBy);
+    if (!indexName) {
+      throw new Error(`Cannot order ${entity.name} by unindexed field: ${query.orderBy}`);
     }
 
-    try {
-      const store = this.db!.transaction('sessionNotes').store;
-      const index = store.index('by-timestamp');
-      const notes = await index.getAll();
-      const sorted = this.sortNotesByTimestamp(notes);
-      return sorted;
-    } catch (error) {
-      console.error('IndexedDbService: Error getting session notes:', error);
-      return this.getSessionNotesFallback();
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+    const cursor = query.cursor ? decodeQueryCursor(query.cursor) : null;
+    const entries = await this.collectIndexEntries(
+      entity,
+      indexName,
+      query,
+      cursor,
+      needsRecordFilter(query) ? Infinity : limit + 1
+    );
+
+    const items: T[] = [];
+    let last: QueryCursor | null = null;
+
+    for (let start = 0; start < entries.length; start += QUERY_BATCH_SIZE) {
+      const batch = entries.slice(start, start + QUERY_BATCH_SIZE);
+      const records = await this.getRecordsById<T>(entity, batch);
+
+      for (let i = 0; i < batch.length; i++) {
+        const record = records[i];
+        if (!record || !matchesRecordQuery(entity, record, query)) {
+          continue;
+        }
+        if (items.length === limit) {
+          return { items, nextCursor: encodeQueryCursor(last!) };
+        }
+        items.push(record);
+        last = batch[i];
+      }
     }
+
+    return { items, nextCursor: null };
   }
 
-  private async getSessionNotesFallback(): Promise<SessionNote[]> {
-    try {
-      const allNotes = await this.db!.getAll('sessionNotes');
-      return this.sortNotesByTimestamp(allNotes);
-    } catch (fallbackError) {
-      console.error('❌ [DB] Error retrieving session notes:', fallbackError);
-      return [];
+  private async collectIndexEntries(
+    entity: EntityDefinition,
+    indexName: string,
+    query: RecordQuery,
+    cursor: QueryCursor | null,
+    max: number
+  ): Promise<QueryCursor[]> {
+    const tx = this.db!.transaction(this.getEntityStore(entity));
+    const index = tx.store.index(indexName as IndexNames<OfflineFirstDB, EntityStoreName>);
+    const direction = query.direction === 'asc' ? 'next' : 'prev';
+    const entries: QueryCursor[] = [];
+
+    let keyCursor = await index.openKeyCursor(buildKeyRange(query, cursor), direction);
+    while (keyCursor && entries.length < max) {
+      const entry = { key: keyCursor.key as string | number, id: keyCursor.primaryKey };
+      if (isAfterCursor(entry, cursor, query.direction)) {
+        entries.push(entry);
+      }
+      keyCursor = await keyCursor.continue();
     }
+    await tx.done;
+
+    return entries;
+  }
+
+  private async getRecordsById<T>(
+    entity: EntityDefinition,
+    entries: QueryCursor[]
+  ): Promise<(T | null)[]> {
+    const tx = this.db!.transaction(this.getEntityStore(entity));
+    const records = await Promise.all(
+      entries.map(function (entry) {
+        return tx.store.get(entry.id);
+      })
+    );
+    await tx.done;
+
+    const self = this;
+    return Promise.all(
+      records.map(function (record) {
+        return record ? (self.unseal(record) as Promise<T>) : null;
+      })
+    );
   }
 
-  async addSessionNote(note: Omit<SessionNote, 'id'>): Promise<string> {
+  async putRecord<T extends OfflineEntity>(entity: EntityDefinition, record: T): Promise<void> {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    if (!this.hasSessionNotesStore()) {
-      console.error('IndexedDbService: sessionNotes store does not exist!');
-      throw new Error(
-        'sessionNotes store not found. Please refresh the page to upgrade the database.'
-      );
+    const store = this.getEntityStore(entity);
+    await this.db!.put(store, await this.seal(store, record));
+    this.notifyChange(store);
+  }
+
+  async deleteRecord(entity: EntityDefinition, id: string): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const store = this.getEntityStore(entity);
+    await this.db!.delete(store, id);
+    this.notifyChange(store);
+  }
+
+  async applyRecordChanges(entity: EntityDefinition, changes: EntityChange[]): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    if (changes.length === 0) {
+      return;
     }
 
-    const id = Date.now().toString();
-    const sessionNote: SessionNote = {
-      id,
-      ...note,
-      timestamp: note.timestamp || Date.now(),
-    };
+    const store = this.getEntityStore(entity);
+    const self = this;
+    // Encrypt first: awaiting WebCrypto inside the transaction would let it commit early.
+    const writes = await Promise.all(
+      changes.map(async function (change) {
+        return change.type !== 'delete' && change.record
+          ? await self.seal(store, change.record)
+          : null;
+      })
+    );
+
+    const tx = this.db!.transaction(store, 'readwrite');
+    for (let i = 0; i < changes.length; i++) {
+      const sealedRecord = writes[i];
+      if (changes[i].type === 'delete') {
+        await tx.store.delete(changes[i].id);
+      } else if (sealedRecord) {
+        await tx.store.put(sealedRecord);
+      }
+    }
+    await tx.done;
+    this.notifyChange(store);
+  }
+
+  async getSyncMeta(key: string): Promise<any | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const meta = await this.db!.get('syncMeta', key);
+    return meta ? meta.value : null;
+  }
+
+  async setSyncMeta(key: string, value: any): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    await this.db!.put('syncMeta', { key, value, timestamp: Date.now() });
+    this.notifyChange('syncMeta');
+  }
+
+  async appendServerChange(change: Omit<EntityChange, 'seq'>): Promise<number> {
+    await this.init();
+    this.ensureDatabaseInitialized();
 
-    await this.db!.add('sessionNotes', sessionNote);
-    return id;
+    const seq = await this.db!.add('serverChangeLog', await this.seal('serverChangeLog', change));
+    return seq as number;
   }
 
-  async updateSessionNote(note: SessionNote): Promise<void> {
+  async getServerChangesSince(seq: number): Promise<EntityChange[]> {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    await this.db!.put('sessionNotes', note);
+    const changes = await this.db!.getAll('serverChangeLog', IDBKeyRange.lowerBound(seq, true));
+    return await this.unsealAll(changes);
   }
 
-  async deleteSessionNote(id: string): Promise<void> {
+  async getLatestServerChangeSeq(): Promise<number> {
     await this.init();
     this.ensureDatabaseInitialized();
 
-    if (!this.hasSessionNotesStore()) {
-      console.error('IndexedDbService: sessionNotes store does not exist!');
-      throw new Error('sessionNotes store not found');
+    const cursor = await this.db!.transaction('serverChangeLog').store.openCursor(null, 'prev');
+    return cursor ? cursor.key : 0;
+  }
+
+  async getIdempotencyRecord(key: string): Promise<IdempotencyRecord | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const record = await this.db!.get('idempotencyRecords', key);
+    return record ? await this.unseal(record) : null;
+  }
+
+  async saveIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    await this.db!.put('idempotencyRecords', await this.seal('idempotencyRecords', record));
+  }
+
+  // Metadata and contents are written together so an attachment is never
+  // queued for upload without its bytes.
+  async addAttachment(attachment: Attachment, data: string): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const sealedAttachment = await this.seal('attachments', attachment);
+    const sealedData = await this.seal('attachmentData', { id: attachment.id, data });
+    const tx = this.db!.transaction(['attachments', 'attachmentData'], 'readwrite');
+    await tx.objectStore('attachments').put(sealedAttachment);
+    await tx.objectStore('attachmentData').put(sealedData);
+    await tx.done;
+    this.notifyChange('attachments');
+  }
+
+  async getAttachment(id: string): Promise<Attachment | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const record = await this.db!.get('attachments', id);
+    return record ? await this.unseal(record) : null;
+  }
+
+  async getAttachments(): Promise<Attachment[]> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const index = this.db!.transaction('attachments').store.index('by-timestamp');
+    return await this.unsealAll(await index.getAll());
+  }
+
+  async getAttachmentsByStatus(statuses: AttachmentStatus[]): Promise<Attachment[]> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const index = this.db!.transaction('attachments').store.index('by-status');
+    const records: Stored<Attachment>[] = [];
+    for (const status of statuses) {
+      records.push(...(await index.getAll(status)));
     }
+    const attachments = await this.unsealAll(records);
+    return attachments.sort(function (a, b) {
+      return a.timestamp - b.timestamp;
+    });
+  }
+
+  async updateAttachment(attachment: Attachment): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    await this.db!.put('attachments', await this.seal('attachments', attachment));
+    this.notifyChange('attachments');
+  }
+
+  // Base64 contents, or null if the attachment was never stored on this device.
+  async getAttachmentData(id: string): Promise<string | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const record = await this.db!.get('attachmentData', id);
+    return record ? (await this.unseal(record)).data : null;
+  }
+
+  async getServerAttachment(id: string): Promise<ServerAttachment | null> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const record = await this.db!.get('serverAttachments', id);
+    return record ? await this.unseal(record) : null;
+  }
+
+  async putServerAttachment(attachment: ServerAttachment): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    await this.db!.put('serverAttachments', await this.seal('serverAttachments', attachment));
+  }
+
+  // Appends in one transaction, then drops the oldest entries beyond `maxEntries`.
+  // Must not log: LoggerService would queue the failure as another entry.
+  async appendLogs(entries: LogEntry[], maxEntries: number): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    const sealedEntries = await this.sealAll('logs', entries);
+    const tx = this.db!.transaction('logs', 'readwrite');
+    for (const entry of sealedEntries) {
+      await tx.store.add(entry);
+    }
+
+    let excess = (await tx.store.count()) - maxEntries;
+    let cursor = excess > 0 ? await tx.store.openCursor() : null;
+    while (cursor && excess > 0) {
+      await cursor.delete();
+      excess--;
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+    this.notifyChange('logs');
+  }
+
+  async getLogs(): Promise<LogEntry[]> {
+    await this.init();
+    this.ensureDatabaseInitialized();
+
+    return await this.unsealAll(await this.db!.getAll('logs'));
+  }
+
+  async clearLogs(): Promise<void> {
+    await this.init();
+    this.ensureDatabaseInitialized();
 
-    await this.db!.delete('sessionNotes', id);
+    await this.db!.clear('logs');
+    this.notifyChange('logs');
   }
 }
@@ -0,0 +1,194 @@
+import { Injectable, InjectionToken, Inject, Injector, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { LogEntry, LogEvent, LogLevel } from '../models';
+import { IndexedDbService } from './indexed-db.service';
+import { LogExport, createLogExport, formatLogEntry, isLevelEnabled } from '../utils/log.utils';
+
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+export interface LogConfig {
+  consoleLevel: LogLevel;
+  // Lowest level kept in the on-device ring buffer.
+  bufferLevel: LogLevel;
+  maxEntries: number;
+  flushDelayMs: number;
+}
+
+export const DEFAULT_LOG_CONFIG: LogConfig = {
+  consoleLevel: 'info',
+  bufferLevel: 'debug',
+  maxEntries: 2000,
+  flushDelayMs: 2000,
+};
+
+export const LOG_CONFIG = new InjectionToken<LogConfig>('LOG_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_LOG_CONFIG,
+});
+
+export class ConsoleLogSink implements LogSink {
+  constructor(private minLevel: LogLevel) {}
+
+  write(entry: LogEntry): void {
+    if (!isLevelEnabled(entry.level, this.minLevel)) {
+      return;
+    }
+
+    const args: any[] = entry.data ? [formatLogEntry(entry), entry.data] : [formatLogEntry(entry)];
+    if (entry.level === 'error') {
+      console.error(...args);
+    } else if (entry.level === 'warn') {
+      console.warn(...args);
+    } else {
+      console.log(...args);
+    }
+  }
+}
+
+// Keeps the newest entries in IndexedDB so they can be exported from the device.
+// Writes are batched; failures go to the console only, since logging them would
+// queue another write.
+@Injectable({
+  providedIn: 'root',
+})
+export class LogBufferService implements LogSink {
+  private pending: LogEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
+
+  constructor(
+    private injector: Injector,
+    @Inject(LOG_CONFIG) private config: LogConfig
+  ) {}
+
+  // Looked up on first use: IndexedDbService itself logs through LoggerService.
+  private get indexedDb(): IndexedDbService {
+    return this.injector.get(IndexedDbService);
+  }
+
+  write(entry: LogEntry): void {
+    if (!isLevelEnabled(entry.level, this.config.bufferLevel)) {
+      return;
+    }
+
+    this.pending.push(entry);
+    // Nothing can be written while the database is locked; keep the newest entries meanwhile.
+    if (this.pending.length > this.config.maxEntries) {
+      this.pending.splice(0, this.pending.length - this.config.maxEntries);
+    }
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || this.isFlushing) {
+      return;
+    }
+
+    const self = this;
+    this.flushTimer = setTimeout(function () {
+      self.flushTimer = null;
+      self.flush().catch(function (error) {
+        console.error('LogBufferService: Could not persist log entries:', error);
+      });
+    }, this.config.flushDelayMs);
+  }
+
+  async flush(): Promise<void> {
+    if (this.isFlushing || this.pending.length === 0) {
+      return;
+    }
+
+    const entries = this.pending;
+    this.pending = [];
+    this.isFlushing = true;
+    try {
+      await this.indexedDb.appendLogs(entries, this.config.maxEntries);
+    } finally {
+      this.isFlushing = false;
+      if (this.pending.length > 0) {
+        this.scheduleFlush();
+      }
+    }
+  }
+
+  async getEntries(): Promise<LogEntry[]> {
+    await this.flush();
+    return this.indexedDb.getLogs();
+  }
+
+  watchEntries(): Observable<LogEntry[]> {
+    return this.indexedDb.watchLogs();
+  }
+
+  async exportLog(): Promise<LogExport> {
+    return createLogExport(await this.getEntries(), Date.now());
+  }
+
+  async clear(): Promise<void> {
+    this.pending = [];
+    await this.indexedDb.clearLogs();
+  }
+}
+
+// Add a sink here to ship entries elsewhere, such as a remote collector.
+export const LOG_SINKS = new InjectionToken<LogSink[]>('LOG_SINKS', {
+  providedIn: 'root',
+  factory: () => [new ConsoleLogSink(inject(LOG_CONFIG).consoleLevel), inject(LogBufferService)],
+});
+
+@Injectable({
+  providedIn: 'root',
+})
+export class LoggerService {
+  constructor(@Inject(LOG_SINKS) private sinks: LogSink[]) {}
+
+  debug(source: string, message: string, data?: Record<string, any>): void {
+    this.log('debug', source, 'message', message, data);
+  }
+
+  info(source: string, message: string, data?: Record<string, any>): void {
+    this.log('info', source, 'message', message, data);
+  }
+
+  warn(source: string, message: string, data?: Record<string, any>): void {
+    this.log('warn', source, 'message', message, data);
+  }
+
+  error(source: string, message: string, data?: Record<string, any>): void {
+    this.log('error', source, 'message', message, data);
+  }
+
+  // Structured events feed the sync metrics; see computeLogMetrics.
+  record(
+    event: LogEvent,
+    source: string,
+    message: string,
+    data?: Record<string, any>,
+    level: LogLevel = 'info'
+  ): void {
+    this.log(level, source, event, message, data);
+  }
+
+  private log(
+    level: LogLevel,
+    source: string,
+    event: LogEvent,
+    message: string,
+    data?: Record<string, any>
+  ): void {
+    const entry: LogEntry = { level, source, event, message, timestamp: Date.now() };
+    if (data) {
+      entry.data = data;
+    }
+
+    this.sinks.forEach(function (sink) {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        console.error('LoggerService: Log sink failed:', error);
+      }
+    });
+  }
+}
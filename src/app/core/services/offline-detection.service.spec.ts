@@ -0,0 +1,57 @@
+import { LoggerService } from './logger.service';
+import { ConnectivityConfig, OfflineDetectionService } from './offline-detection.service';
+
+const CONFIG: ConnectivityConfig = {
+  healthUrl: '/favicon.ico',
+  probeIntervalMs: 60 * 60 * 1000,
+  probeTimeoutMs: 1000,
+  failureThreshold: 3,
+};
+
+describe('OfflineDetectionService', () => {
+  let fetchSpy: ReturnType<typeof vi.fn>;
+  let service: OfflineDetectionService;
+
+  beforeEach(async () => {
+    fetchSpy = vi.fn(() => Promise.resolve(new Response(null, { status: 200 })));
+    vi.stubGlobal('fetch', fetchSpy);
+    service = new OfflineDetectionService(CONFIG, new LoggerService([]));
+    await service.probe();
+    fetchSpy.mockClear();
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should stay online after a single failed request', () => {
+    service.reportRequestFailure();
+
+    expect(service.state).toBe('online');
+    expect(service.isOnline).toBe(true);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should need failureThreshold failures in a row to leave online', () => {
+    service.reportRequestFailure();
+    service.reportRequestFailure();
+    service.reportRequestSuccess();
+    service.reportRequestFailure();
+    service.reportRequestFailure();
+
+    expect(service.state).toBe('online');
+  });
+
+  it('should degrade at the threshold and go offline when the probe fails', async () => {
+    fetchSpy.mockImplementation(() => Promise.reject(new TypeError('Failed to fetch')));
+
+    service.reportRequestFailure();
+    service.reportRequestFailure();
+    service.reportRequestFailure();
+
+    expect(service.state).toBe('degraded');
+    expect(await service.probe()).toBe(false);
+    expect(service.state).toBe('offline');
+  });
+});
@@ -1,33 +1,160 @@
-import { Injectable } from '@angular/core';
-import { Observable, fromEvent, merge, of } from 'rxjs';
-import { map, startWith } from 'rxjs/operators';
+import { Injectable, InjectionToken, Inject, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, fromEvent, interval } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { LoggerService } from './logger.service';
+
+export type ConnectivityState = 'online' | 'degraded' | 'offline';
+
+export interface ConnectivityConfig {
+  healthUrl: string;
+  probeIntervalMs: number;
+  probeTimeoutMs: number;
+  failureThreshold: number;
+}
+
+export const CONNECTIVITY_CONFIG = new InjectionToken<ConnectivityConfig>('CONNECTIVITY_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({
+    healthUrl: '/favicon.ico',
+    probeIntervalMs: 30000,
+    probeTimeoutMs: 5000,
+    failureThreshold: 3,
+  }),
+});
 
 @Injectable({
   providedIn: 'root'
 })
-export class OfflineDetectionService {
-  private online$: Observable<boolean>;
-
-  constructor() {
-    const onlineEvent$ = fromEvent(window, 'online').pipe(map(() => true));
-    const offlineEvent$ = fromEvent(window, 'offline').pipe(map(() => false));
-    
-    this.online$ = merge(
-      of(navigator.onLine),
-      onlineEvent$,
-      offlineEvent$
-    ).pipe(
-      startWith(navigator.onLine)
+export class OfflineDetectionService implements OnDestroy {
+  private stateSubject = new BehaviorSubject<ConnectivityState>(
+    navigator.onLine ? 'online' : 'offline'
+  );
+  private consecutiveFailures = 0;
+  private probeInFlight: Promise<boolean> | null = null;
+  private subscriptions = new Subscription();
+
+  constructor(
+    @Inject(CONNECTIVITY_CONFIG) private config: ConnectivityConfig,
+    private logger: LoggerService
+  ) {
+    const self = this;
+
+    this.subscriptions.add(
+      fromEvent(window, 'online').subscribe(function () {
+        self.probe();
+      })
+    );
+    this.subscriptions.add(
+      fromEvent(window, 'offline').subscribe(function () {
+        self.setState('offline');
+      })
+    );
+    this.subscriptions.add(
+      interval(this.config.probeIntervalMs).subscribe(function () {
+        self.probe();
+      })
     );
+
+    this.probe();
+  }
+
+  get state$(): Observable<ConnectivityState> {
+    return this.stateSubject.pipe(distinctUntilChanged());
+  }
+
+  get state(): ConnectivityState {
+    return this.stateSubject.value;
   }
 
   get isOnline$(): Observable<boolean> {
-    return this.online$;
+    return this.state$.pipe(
+      map(function (state) {
+        return state === 'online';
+      }),
+      distinctUntilChanged()
+    );
   }
 
   get isOnline(): boolean {
-    return navigator.onLine;
+    return this.state === 'online';
   }
-}
 
+  reportRequestSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state === 'degraded') {
+      this.setState('online');
+    }
+  }
 
+  // One failed request is often a slow endpoint, not a dead connection, so the state only
+  // degrades after `failureThreshold` in a row. The probe then settles it either way.
+  reportRequestFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.consecutiveFailures < this.config.failureThreshold) {
+      return;
+    }
+
+    if (this.state === 'online') {
+      this.setState('degraded');
+    }
+    this.probe();
+  }
+
+  probe(): Promise<boolean> {
+    if (!navigator.onLine) {
+      this.setState('offline');
+      return Promise.resolve(false);
+    }
+
+    if (!this.probeInFlight) {
+      const self = this;
+      this.probeInFlight = this.checkReachability().then(function (reachable) {
+        self.probeInFlight = null;
+        if (reachable) {
+          self.consecutiveFailures = 0;
+          self.setState('online');
+        } else {
+          self.logger.info('NETWORK', 'Health check failed', { url: self.config.healthUrl });
+          self.setState('offline');
+        }
+        return reachable;
+      });
+    }
+
+    return this.probeInFlight;
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  private async checkReachability(): Promise<boolean> {
+    const controller = new AbortController();
+    const timer = setTimeout(function () {
+      controller.abort();
+    }, this.config.probeTimeoutMs);
+
+    try {
+      const separator = this.config.healthUrl.includes('?') ? '&' : '?';
+      const response = await fetch(`${this.config.healthUrl}${separator}_probe=${Date.now()}`, {
+        method: 'HEAD',
+        cache: 'no-store',
+        headers: { 'ngsw-bypass': 'true' },
+        signal: controller.signal,
+      });
+      return response.ok;
+    } catch (error) {
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private setState(state: ConnectivityState): void {
+    if (this.state !== state) {
+      this.logger.info('NETWORK', 'Connectivity changed', { from: this.state, to: state });
+    }
+    this.stateSubject.next(state);
+  }
+}
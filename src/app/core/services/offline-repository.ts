@@ -0,0 +1,116 @@
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable, firstValueFrom } from 'rxjs';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import {
+  EntityChangeFeed,
+  EntityDefinition,
+  ListQueryParams,
+  OfflineEntity,
+  QueryPage,
+} from '../models';
+import { createEtag } from '../utils/http.utils';
+import { getChangesPath, getCursorKey, getRecordUrl } from '../utils/entity.utils';
+import { hasQueryParams, parseRecordQuery, toQueryParams } from '../utils/query.utils';
+import { describeError } from '../utils/log.utils';
+
+// Writes go through HttpClient so the offline interceptor can queue them and keep
+// the cache current; reads fall back to the local store when the request fails.
+export abstract class OfflineRepository<T extends OfflineEntity> {
+  constructor(
+    readonly entity: EntityDefinition,
+    protected http: HttpClient,
+    protected indexedDb: IndexedDbService,
+    protected logger: LoggerService
+  ) {}
+
+  // An offline cache miss arrives as a 503 body rather than an error, so
+  // anything that is not a list falls back to the local store too.
+  async list(): Promise<T[]> {
+    try {
+      const records = await firstValueFrom(this.http.get<T[]>(this.entity.basePath));
+      if (Array.isArray(records)) {
+        return records;
+      }
+    } catch (error) {
+      this.logger.error('REPO', 'Could not load records over HTTP', {
+        entity: this.entity.name,
+        error: describeError(error),
+      });
+    }
+    return this.getLocal();
+  }
+
+  // Pass the previous page's `nextCursor` as `cursor` to fetch the next page.
+  query(params: ListQueryParams): Promise<QueryPage<T>> {
+    return firstValueFrom(
+      this.http.get<QueryPage<T>>(this.entity.basePath, { params: toQueryParams(params) })
+    );
+  }
+
+  // Live view of the local store with queued writes applied; it re-emits on every change,
+  // so callers never need to reload. Query params narrow it to their first page.
+  watch(params: ListQueryParams = {}): Observable<T[]> {
+    const httpParams = new HttpParams({ fromObject: toQueryParams(params) });
+    const query = hasQueryParams(httpParams) ? parseRecordQuery(this.entity, httpParams) : null;
+    return this.indexedDb.watchRecords<T>(this.entity, query);
+  }
+
+  async getLocal(): Promise<T[]> {
+    try {
+      return await this.indexedDb.getAllRecords<T>(this.entity);
+    } catch (error) {
+      this.logger.error('REPO', 'Could not load local records', {
+        entity: this.entity.name,
+        error: describeError(error),
+      });
+      return [];
+    }
+  }
+
+  async getLocalById(id: string): Promise<T | null> {
+    return this.indexedDb.getRecord<T>(this.entity, id);
+  }
+
+  create(fields: Partial<T>): Promise<T> {
+    return firstValueFrom(this.http.post<T>(this.entity.basePath, fields));
+  }
+
+  update(record: T, changes: Partial<T>): Promise<T> {
+    return firstValueFrom(
+      this.http.put<T>(getRecordUrl(this.entity, record.id), changes, {
+        headers: this.createVersionHeaders(record),
+      })
+    );
+  }
+
+  remove(record: T): Promise<unknown> {
+    return firstValueFrom(
+      this.http.delete(getRecordUrl(this.entity, record.id), {
+        headers: this.createVersionHeaders(record),
+      })
+    );
+  }
+
+  // Applies server changes since the stored cursor; a missing cursor fetches a full snapshot.
+  async pull(): Promise<number> {
+    const cursorKey = getCursorKey(this.entity);
+    const cursor = await this.indexedDb.getSyncMeta(cursorKey);
+    const params = cursor ? { since: String(cursor) } : undefined;
+    const feed = await firstValueFrom(
+      this.http.get<EntityChangeFeed<T>>(getChangesPath(this.entity), { params })
+    );
+
+    await this.indexedDb.applyRecordChanges(this.entity, feed.changes);
+    await this.indexedDb.setSyncMeta(cursorKey, feed.cursor);
+    return feed.changes.length;
+  }
+
+  private createVersionHeaders(record: T): HttpHeaders {
+    let headers = new HttpHeaders();
+    if (record.version) {
+      headers = headers.set('If-Match', createEtag(record.version));
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,50 @@
+import { HttpClient, HttpHandler, HttpResponse } from '@angular/common/http';
+import { of } from 'rxjs';
+import { SessionNote } from '../models';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { SessionNotesRepository } from './session-notes.repository';
+
+const LOCAL_NOTES: SessionNote[] = [
+  { id: '1', clientName: 'Ann', note: 'Walk', shiftDate: '2026-03-01', timestamp: 1, version: 1 },
+];
+
+const indexedDb = {
+  getAllRecords: () => Promise.resolve(LOCAL_NOTES),
+} as unknown as IndexedDbService;
+
+// Stands in for the interceptor chain, answering every request with `response`.
+function createHttp(response: HttpResponse<any>): HttpClient {
+  const handler: HttpHandler = { handle: () => of(response) };
+  return new HttpClient(handler);
+}
+
+describe('OfflineRepository.list', () => {
+  it('should return the server list when there is one', async () => {
+    const serverNotes = [{ ...LOCAL_NOTES[0], id: '2' }];
+    const repository = new SessionNotesRepository(
+      createHttp(new HttpResponse({ status: 200, body: serverNotes })),
+      indexedDb,
+      new LoggerService([])
+    );
+
+    expect(await repository.list()).toEqual(serverNotes);
+  });
+
+  it('should fall back to the local store on an offline 503 body', async () => {
+    // What OfflineInterceptor answers when offline with nothing cached.
+    const repository = new SessionNotesRepository(
+      createHttp(
+        new HttpResponse({
+          status: 503,
+          statusText: 'Service Unavailable',
+          body: { error: 'No cached data available and device is offline' },
+        })
+      ),
+      indexedDb,
+      new LoggerService([])
+    );
+
+    expect(await repository.list()).toEqual(LOCAL_NOTES);
+  });
+});
@@ -0,0 +1,16 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { OfflineRepository } from './offline-repository';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { SessionNote } from '../models';
+import { SESSION_NOTES_ENTITY } from '../utils/entity.utils';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionNotesRepository extends OfflineRepository<SessionNote> {
+  constructor(http: HttpClient, indexedDb: IndexedDbService, logger: LoggerService) {
+    super(SESSION_NOTES_ENTITY, http, indexedDb, logger);
+  }
+}
@@ -0,0 +1,301 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  HttpClient,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { EMPTY, Observable, of, throwError } from 'rxjs';
+import { OutboxItem } from '../models';
+import { RetryConfig } from '../utils/retry.utils';
+import {
+  backgroundSyncStub,
+  createIndexedDbService,
+  tabCoordinationStub,
+} from '../testing/service-stubs';
+import { AttachmentService } from './attachment.service';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { OfflineDetectionService } from './offline-detection.service';
+import { SyncService } from './sync.service';
+
+const RETRY_CONFIG: RetryConfig = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 };
+
+const offlineDetection = {
+  state$: EMPTY,
+  isOnline: true,
+  reportRequestSuccess: () => {},
+  reportRequestFailure: () => {},
+} as unknown as OfflineDetectionService;
+
+const attachmentService = {
+  uploadPending: () => Promise.resolve(0),
+  getNextRetryAt: () => Promise.resolve(null),
+  getPendingIds: () => Promise.resolve(new Set<string>()),
+} as unknown as AttachmentService;
+
+const logger = new LoggerService([]);
+
+type Responder = (request: HttpRequest<any>) => Observable<HttpEvent<any>>;
+
+// Wires a SyncService to a real local database and a server that answers with `respond`.
+function createSyncService(db: IndexedDbService, respond: Responder): SyncService {
+  const handler: HttpHandler = { handle: respond };
+  return new SyncService(
+    new HttpClient(handler),
+    db,
+    offlineDetection,
+    backgroundSyncStub,
+    tabCoordinationStub,
+    attachmentService,
+    logger,
+    RETRY_CONFIG,
+    []
+  );
+}
+
+function fail(status: number): Responder {
+  return (request) => throwError(() => new HttpErrorResponse({ status, url: request.url }));
+}
+
+function createItem(overrides: Partial<OutboxItem> = {}): Omit<OutboxItem, 'id'> {
+  return {
+    url: '/api/session-notes/1',
+    method: 'PUT',
+    payload: { id: '1', clientName: 'Ann', note: 'Walk', shiftDate: '2026-03-01' },
+    timestamp: 1,
+    ...overrides,
+  };
+}
+
+describe('SyncService retries', () => {
+  let db: IndexedDbService;
+  let service: SyncService;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    db = createIndexedDbService(logger);
+    await db.init();
+  });
+
+  afterEach(() => {
+    service['clearRetryTimer']();
+  });
+
+  it('should back off a retryable failure and keep the item queued', async () => {
+    await db.addToOutbox(createItem());
+    service = createSyncService(db, fail(503));
+
+    await service.sync();
+
+    const [item] = await db.getOutbox();
+    expect(item.attempts).toBe(1);
+    expect(item.lastError).toBeTruthy();
+    expect(item.nextRetryAt).toBeGreaterThan(Date.now());
+    expect(await db.getSyncConflicts()).toEqual([]);
+  });
+
+  it('should move an item out of attempts to the sync conflicts', async () => {
+    await db.addToOutbox(createItem({ attempts: RETRY_CONFIG.maxAttempts - 1 }));
+    service = createSyncService(db, fail(503));
+
+    await service.sync();
+
+    expect(await db.getOutbox()).toEqual([]);
+    const [conflict] = await db.getSyncConflicts();
+    expect(conflict.url).toBe('/api/session-notes/1');
+    expect(conflict.error).toContain(`Gave up after ${RETRY_CONFIG.maxAttempts} attempts`);
+  });
+
+  it('should push an item once when sync is called again before the run starts', async () => {
+    await db.addToOutbox(createItem());
+    const requests: string[] = [];
+    service = createSyncService(db, (request) => {
+      requests.push(request.url);
+      return of(new HttpResponse({ status: 200, body: {} }));
+    });
+
+    await Promise.all([service.sync(), service.sync()]);
+
+    expect(requests).toEqual(['/api/session-notes/1']);
+    expect(await db.getOutbox()).toEqual([]);
+  });
+
+  it('should not send an item whose backoff has not elapsed', async () => {
+    await db.addToOutbox(createItem({ attempts: 1, nextRetryAt: Date.now() + 60000 }));
+    const requests: string[] = [];
+    service = createSyncService(db, (request) => {
+      requests.push(request.url);
+      return of(new HttpResponse({ status: 200, body: {} }));
+    });
+
+    await service.sync();
+
+    expect(requests).toEqual([]);
+    expect((await db.getOutbox()).length).toBe(1);
+  });
+});
+
+describe('SyncService temp ids', () => {
+  let db: IndexedDbService;
+  let service: SyncService;
+  let requests: HttpRequest<any>[];
+
+  // The server assigns id 42 to anything created.
+  function respond(request: HttpRequest<any>): Observable<HttpEvent<any>> {
+    requests.push(request);
+    const body = request.method === 'POST' ? { ...request.body, id: '42' } : request.body;
+    return of(new HttpResponse({ status: 200, body }));
+  }
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    db = createIndexedDbService(logger);
+    await db.init();
+    requests = [];
+    service = createSyncService(db, respond);
+  });
+
+  afterEach(() => {
+    service['clearRetryTimer']();
+  });
+
+  it('should map a created temp id and rewrite the items still queued for it', async () => {
+    await db.addToOutbox(
+      createItem({ url: '/api/session-notes', method: 'POST', payload: { id: 'tmp-1' } })
+    );
+    await db.addToOutbox(
+      createItem({
+        url: '/api/session-notes/3',
+        payload: { id: '3', followUpOf: 'tmp-1' },
+        timestamp: 2,
+        attempts: 1,
+        nextRetryAt: Date.now() + 60000,
+      })
+    );
+
+    await service.sync();
+
+    expect(requests.map((request) => request.method)).toEqual(['POST']);
+    expect(await db.getIdMappings()).toEqual([
+      expect.objectContaining({ tempId: 'tmp-1', serverId: '42' }),
+    ]);
+    const [waiting] = await db.getOutbox();
+    expect(waiting.payload).toEqual({ id: '3', followUpOf: '42' });
+  });
+
+  it('should send nothing for a temp id deleted before it was ever synced', async () => {
+    await db.addToOutbox(
+      createItem({ url: '/api/session-notes', method: 'POST', payload: { id: 'tmp-1' } })
+    );
+    await db.addToOutbox(
+      createItem({
+        url: '/api/session-notes/tmp-1',
+        method: 'DELETE',
+        payload: null,
+        timestamp: 2,
+      })
+    );
+
+    await service.sync();
+
+    expect(requests).toEqual([]);
+    expect(await db.getOutbox()).toEqual([]);
+    expect(await db.getIdMappings()).toEqual([]);
+  });
+
+  it('should fail items that reference a temp id deleted before it was synced', async () => {
+    await db.addToOutbox(
+      createItem({ url: '/api/session-notes', method: 'POST', payload: { id: 'tmp-1' } })
+    );
+    await db.addToOutbox(createItem({ payload: { id: '1', followUpOf: 'tmp-1' }, timestamp: 2 }));
+    await db.addToOutbox(
+      createItem({ url: '/api/session-notes/tmp-1', method: 'DELETE', payload: null, timestamp: 3 })
+    );
+
+    await service.sync();
+
+    expect(requests).toEqual([]);
+    expect(await db.getOutbox()).toEqual([]);
+    const [conflict] = await db.getSyncConflicts();
+    expect(conflict.url).toBe('/api/session-notes/1');
+    expect(conflict.error).toContain('deleted before it was synced');
+  });
+
+  it('should send a later DELETE to the server id once the temp id is mapped', async () => {
+    await db.addIdMapping('tmp-1', '42');
+    await db.addToOutbox(
+      createItem({ url: '/api/session-notes/tmp-1', method: 'DELETE', payload: null })
+    );
+
+    await service.sync();
+
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'DELETE /api/session-notes/42',
+    ]);
+    expect(await db.getOutbox()).toEqual([]);
+  });
+});
+
+describe('SyncService versions', () => {
+  let db: IndexedDbService;
+  let service: SyncService;
+  let ifMatches: (string | null)[];
+  let serverVersion: number;
+
+  // Rejects a write whose If-Match is stale and bumps the version otherwise.
+  function respond(request: HttpRequest<any>): Observable<HttpEvent<any>> {
+    ifMatches.push(request.headers.get('If-Match'));
+    if (request.headers.get('If-Match') !== `"${serverVersion}"`) {
+      return fail(412)(request);
+    }
+    serverVersion++;
+    return of(new HttpResponse({ status: 200, body: { ...request.body, version: serverVersion } }));
+  }
+
+  function createEdit(note: string, overrides: Partial<OutboxItem> = {}) {
+    return createItem({ payload: { id: '1', note, version: 3 }, ifMatch: '"3"', ...overrides });
+  }
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    db = createIndexedDbService(logger);
+    await db.init();
+    ifMatches = [];
+    serverVersion = 3;
+    service = createSyncService(db, respond);
+  });
+
+  afterEach(() => {
+    service['clearRetryTimer']();
+  });
+
+  it('should send a second uncompacted edit against the version the first one wrote', async () => {
+    await db.addToOutbox(createEdit('first', { attempts: 1 }));
+    await db.addToOutbox(createEdit('second', { timestamp: 2 }));
+
+    await service.sync();
+
+    expect(ifMatches).toEqual(['"3"', '"4"']);
+    expect(await db.getOutbox()).toEqual([]);
+    expect(await db.getSyncConflicts()).toEqual([]);
+    expect(serverVersion).toBe(5);
+  });
+
+  it('should keep the new version on a later edit that has to wait', async () => {
+    await db.addToOutbox(createEdit('first', { attempts: 1 }));
+    await db.addToOutbox(createEdit('second', { timestamp: 2 }));
+    service = createSyncService(db, (request) =>
+      request.body.note === 'first' ? respond(request) : fail(503)(request)
+    );
+
+    await service.sync();
+
+    const [waiting] = await db.getOutbox();
+    expect(waiting.ifMatch).toBe('"4"');
+    expect(waiting.payload.version).toBe(4);
+  });
+});
@@ -1,94 +1,447 @@
-import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable, fromEvent, from, Subject, EMPTY } from 'rxjs';
-import { concatMap, catchError, tap } from 'rxjs/operators';
+import { Injectable, InjectionToken, Inject, inject } from '@angular/core';
+import { HttpClient, HttpContext, HttpResponse } from '@angular/common/http';
+import { Observable, from, BehaviorSubject, EMPTY } from 'rxjs';
+import { concatMap, catchError, filter, map } from 'rxjs/operators';
 import { IndexedDbService } from './indexed-db.service';
-import { OutboxItem } from '../models';
+import {
+  OfflineEntity,
+  OutboxItem,
+  PersistedSyncStatus,
+  SyncConflict,
+  SyncStatus,
+} from '../models';
 import { OfflineDetectionService } from './offline-detection.service';
-import { isClientError } from '../utils/http.utils';
+import { BackgroundSyncService } from './background-sync.service';
+import { TabCoordinationService, OUTBOX_SYNC_LOCK } from './tab-coordination.service';
+import { OfflineRepository } from './offline-repository';
+import { SessionNotesRepository } from './session-notes.repository';
+import { AttachmentService } from './attachment.service';
+import { LoggerService } from './logger.service';
+import { SKIP_OUTBOX } from '../interceptors/offline.interceptor';
+import {
+  isClientError,
+  isNetworkError,
+  isRetryableClientError,
+  isUpdateMethod,
+  isVersionConflict,
+} from '../utils/http.utils';
+import {
+  RetryConfig,
+  DEFAULT_RETRY_CONFIG,
+  calculateBackoffDelay,
+  hasExceededMaxAttempts,
+} from '../utils/retry.utils';
+import {
+  compactOutbox,
+  getResourceUrl,
+  rewriteOutboxItemId,
+  rewriteOutboxItemVersion,
+} from '../utils/outbox.utils';
+import { buildOutboxRequest, pickRequestOptions } from '../utils/outbox-request.utils';
+import { findTempIdsInValue, isTempId } from '../utils/id.utils';
+import { INITIAL_SYNC_STATUS, getRestingPhase } from '../utils/sync-status.utils';
+import { describeError } from '../utils/log.utils';
+
+export const SYNC_RETRY_CONFIG = new InjectionToken<RetryConfig>('SYNC_RETRY_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_RETRY_CONFIG,
+});
+
+// Every repository listed here is pulled after the outbox drains.
+export const OFFLINE_REPOSITORIES = new InjectionToken<OfflineRepository<OfflineEntity>[]>(
+  'OFFLINE_REPOSITORIES',
+  {
+    providedIn: 'root',
+    factory: () => [inject(SessionNotesRepository)],
+  }
+);
 
-export interface SyncStatus {
-  isSyncing: boolean;
-  totalItems: number;
-  completedItems: number;
-  failedItems: number;
-}
+// Sync meta flag that stops this app and the service worker from sending the outbox.
+export const OUTBOX_PAUSED_KEY = 'outbox-paused';
+
+export const SYNC_STATUS_KEY = 'sync-status';
 
 @Injectable({
   providedIn: 'root',
 })
 export class SyncService {
-  private statusSubject = new Subject<SyncStatus>();
-  private currentStatus: SyncStatus = {
-    isSyncing: false,
-    totalItems: 0,
-    completedItems: 0,
-    failedItems: 0,
-  };
+  private statusSubject = new BehaviorSubject<SyncStatus>(INITIAL_SYNC_STATUS);
+  // Local flags; the status stream may reflect a run in another tab.
+  private isRunning = false;
+  private isSyncInFlight = false;
+  private isPausedFlag = false;
+  private runError: string | null = null;
+  private runStartedAt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Set when an attachment is backing off, so the items it holds back get retried too.
+  private attachmentRetryAt: number | null = null;
 
   constructor(
     private http: HttpClient,
     private indexedDb: IndexedDbService,
-    private offlineDetection: OfflineDetectionService
+    private offlineDetection: OfflineDetectionService,
+    private backgroundSync: BackgroundSyncService,
+    private tabCoordination: TabCoordinationService,
+    private attachmentService: AttachmentService,
+    private logger: LoggerService,
+    @Inject(SYNC_RETRY_CONFIG) private retryConfig: RetryConfig,
+    @Inject(OFFLINE_REPOSITORIES) private repositories: OfflineRepository<OfflineEntity>[]
   ) {
     this.setupOnlineListener();
+    this.setupBackgroundSync();
+    this.setupTabListener();
+    this.restoreStatus();
+    this.watchQueue();
   }
 
+  // Replays the latest status to new subscribers.
   get syncStatus(): Observable<SyncStatus> {
     return this.statusSubject.asObservable();
   }
 
-  private setupOnlineListener(): void {
+  get status(): SyncStatus {
+    return this.statusSubject.value;
+  }
+
+  private get currentStatus(): SyncStatus {
+    return this.statusSubject.value;
+  }
+
+  private async restoreStatus(): Promise<void> {
+    try {
+      const persisted: PersistedSyncStatus | null =
+        await this.indexedDb.getSyncMeta(SYNC_STATUS_KEY);
+      if (persisted && !this.isRunning) {
+        this.updateStatus({
+          lastSyncedAt: persisted.lastSyncedAt,
+          lastError: persisted.lastError,
+          phase: getRestingPhase(this.isPausedFlag, persisted.lastError),
+        });
+      }
+    } catch (error) {
+      this.logger.error('SYNC', 'Could not restore sync status', { error: describeError(error) });
+    }
+  }
+
+  // Counts and the pause flag follow the database, whichever tab changed it.
+  private watchQueue(): void {
     const self = this;
-    fromEvent(window, 'online').subscribe(function () {
-      if (self.offlineDetection.isOnline) {
-        console.log('🌐 [ONLINE] Connection restored - triggering sync');
-        self.sync();
+    this.indexedDb.watchQueueCounts().subscribe(function (counts) {
+      self.updateStatus({
+        pendingCount: counts.pending,
+        conflictCount: counts.conflicts,
+      });
+    });
+
+    this.watchPaused().subscribe(function (isPaused) {
+      self.isPausedFlag = isPaused;
+      if (!self.isRunning) {
+        self.updateStatus({ phase: getRestingPhase(isPaused, self.currentStatus.lastError) });
       }
     });
   }
 
+  private setupOnlineListener(): void {
+    const self = this;
+    this.offlineDetection.state$
+      .pipe(
+        filter(function (state) {
+          return state === 'online';
+        })
+      )
+      .subscribe(function () {
+        self.logger.info('ONLINE', 'Connection confirmed - triggering sync');
+        self.sync();
+      });
+  }
+
+  private setupBackgroundSync(): void {
+    const self = this;
+    this.backgroundSync.messages$
+      .pipe(
+        filter(function (message) {
+          return message.type === 'SYNC_REQUESTED';
+        })
+      )
+      .subscribe(function () {
+        self.logger.info('BG SYNC', 'Service worker handed sync to this tab');
+        self.sync();
+      });
+
+    this.backgroundSync.registerPeriodicSync();
+  }
+
+  private setupTabListener(): void {
+    const self = this;
+    this.tabCoordination.messages$
+      .pipe(
+        filter(function (message) {
+          return message.type === 'sync-status';
+        })
+      )
+      .subscribe(function (message) {
+        self.statusSubject.next({ ...self.currentStatus, ...message.payload });
+      });
+  }
+
   async sync(): Promise<void> {
     if (this.shouldSkipSync()) {
       return;
     }
 
-    const outboxItems = await this.indexedDb.getOutbox();
+    // Claimed before the first await: without Web Locks runExclusive does not
+    // stop a second call from this tab (online event plus retry timer).
+    this.isSyncInFlight = true;
+    try {
+      if (await this.isPaused()) {
+        this.logger.info('SYNC', 'Outbox is paused - skipping');
+        return;
+      }
+
+      const self = this;
+      const ran = await this.tabCoordination.runExclusive(OUTBOX_SYNC_LOCK, function () {
+        return self.runSync().then(function () {
+          return true;
+        });
+      });
+
+      if (ran === null) {
+        this.logger.info('SYNC', 'Another tab is syncing - skipping');
+      }
+    } finally {
+      this.isSyncInFlight = false;
+    }
+  }
+
+  private async runSync(): Promise<void> {
+    this.isRunning = true;
+    this.runError = null;
+    this.runStartedAt = Date.now();
+    this.updateStatus({ phase: 'pushing', currentItem: null });
+
+    try {
+      await this.pushAndPull();
+    } catch (error: any) {
+      this.logger.error('SYNC', 'Sync run failed', { error: describeError(error) });
+      this.runError = error.message || String(error);
+    } finally {
+      this.isRunning = false;
+      await this.finishRun();
+    }
+  }
+
+  private async pushAndPull(): Promise<void> {
+    this.clearRetryTimer();
+
+    // Files go first so the records referencing them are sent with server ids.
+    const pendingAttachments = await this.uploadAttachments();
+    const outboxItems = await this.compactOutbox();
+    const now = Date.now();
+    const readyItems = this.getItemsReadyForRetry(outboxItems, now);
+
+    if (readyItems.length === 0) {
+      this.logger.info('SYNC', 'No items to sync');
+      this.scheduleNextRetry(outboxItems);
+    } else {
+      this.logger.record('sync-start', 'SYNC', 'Starting sync', {
+        items: readyItems.length,
+        waiting: outboxItems.length - readyItems.length,
+      });
+      this.startSync(readyItems.length);
+      await this.processOutboxItems(
+        readyItems,
+        this.getBlockedUrls(outboxItems, now),
+        pendingAttachments
+      );
+    }
 
-    if (outboxItems.length === 0) {
-      console.log('📦 [SYNC] No items to sync');
+    this.updateStatus({ phase: 'pulling', currentItem: null });
+    await this.pull();
+  }
+
+  // A run that ends without a retryable failure counts as a successful sync.
+  private async finishRun(): Promise<void> {
+    const lastError = this.runError;
+    const persisted: PersistedSyncStatus = {
+      lastSyncedAt: lastError ? this.currentStatus.lastSyncedAt : Date.now(),
+      lastError,
+    };
+
+    this.updateStatus({
+      ...persisted,
+      phase: getRestingPhase(this.isPausedFlag, lastError),
+      currentItem: null,
+    });
+    this.logger.record(
+      'sync-complete',
+      'SYNC',
+      lastError ? 'Sync run finished with errors' : 'Sync run finished',
+      { durationMs: Date.now() - this.runStartedAt, error: lastError },
+      lastError ? 'warn' : 'info'
+    );
+
+    try {
+      await this.indexedDb.setSyncMeta(SYNC_STATUS_KEY, persisted);
+    } catch (error) {
+      this.logger.error('SYNC', 'Could not save sync status', { error: describeError(error) });
+    }
+  }
+
+  // Returns the temp ids of attachments still not on the server.
+  private async uploadAttachments(): Promise<Set<string>> {
+    try {
+      const count = await this.attachmentService.uploadPending(this.retryConfig);
+      if (count > 0) {
+        this.logger.info('SYNC', 'Uploaded attachments', { count });
+      }
+    } catch (error) {
+      this.logger.error('SYNC', 'Attachment upload error', { error: describeError(error) });
+    }
+    this.attachmentRetryAt = await this.attachmentService.getNextRetryAt();
+    return this.attachmentService.getPendingIds();
+  }
+
+  private async pull(): Promise<void> {
+    if (!this.offlineDetection.isOnline) {
       return;
     }
 
-    console.log('🚀 [SYNC] Starting sync | Items:', outboxItems.length);
-    this.startSync(outboxItems.length);
-    this.processOutboxItems(outboxItems);
+    for (const repository of this.repositories) {
+      try {
+        const count = await repository.pull();
+        this.logger.info('SYNC', 'Pulled changes', { entity: repository.entity.name, count });
+      } catch (error: any) {
+        this.runError = `Pull failed for ${repository.entity.name}: ${describeError(error)}`;
+        this.logger.error('SYNC', 'Pull error', {
+          entity: repository.entity.name,
+          error: describeError(error),
+        });
+      }
+    }
+  }
+
+  private async compactOutbox(): Promise<OutboxItem[]> {
+    const outboxItems = await this.indexedDb.getOutbox();
+    const compaction = compactOutbox(outboxItems);
+
+    const isUnchanged =
+      compaction.removedIds.length === 0 &&
+      compaction.updatedItems.length === 0 &&
+      compaction.orphanedItems.length === 0;
+    if (isUnchanged) {
+      return outboxItems;
+    }
+
+    await this.indexedDb.applyOutboxCompaction(compaction.updatedItems, compaction.removedIds);
+    for (const item of compaction.orphanedItems) {
+      this.logger.record(
+        'conflict',
+        'OUTBOX',
+        'Orphaned by an offline delete, moved to sync conflicts',
+        { method: item.method, url: item.url },
+        'warn'
+      );
+      await this.moveToSyncConflicts(item, 'References a record deleted before it was synced');
+    }
+    this.logger.info('OUTBOX', 'Compacted', {
+      removed: compaction.removedIds.length,
+      orphaned: compaction.orphanedItems.length,
+      remaining: compaction.items.length,
+    });
+    return compaction.items;
   }
 
   private shouldSkipSync(): boolean {
-    return this.currentStatus.isSyncing || !this.offlineDetection.isOnline;
+    return this.isSyncInFlight || !this.offlineDetection.isOnline;
+  }
+
+  private getItemsReadyForRetry(items: OutboxItem[], now: number): OutboxItem[] {
+    return items.filter(function (item) {
+      return !item.nextRetryAt || item.nextRetryAt <= now;
+    });
+  }
+
+  private getBlockedUrls(items: OutboxItem[], now: number): Set<string> {
+    const self = this;
+    const blockedUrls = new Set<string>();
+    items.forEach(function (item) {
+      if (item.nextRetryAt && item.nextRetryAt > now) {
+        blockedUrls.add(self.getBlockingKey(item));
+      }
+    });
+    return blockedUrls;
   }
 
   private startSync(totalItems: number): void {
     this.updateStatus({
-      isSyncing: true,
       totalItems: totalItems,
       completedItems: 0,
       failedItems: 0,
     });
   }
 
-  private processOutboxItems(outboxItems: OutboxItem[]): void {
+  private processOutboxItems(
+    outboxItems: OutboxItem[],
+    blockedUrls: Set<string>,
+    pendingAttachments: Set<string>
+  ): Promise<void> {
+    const self = this;
+
+    return new Promise(function (resolve) {
+      self.drainOutboxItems(outboxItems, blockedUrls, pendingAttachments, resolve);
+    });
+  }
+
+  private drainOutboxItems(
+    outboxItems: OutboxItem[],
+    blockedUrls: Set<string>,
+    pendingAttachments: Set<string>,
+    done: () => void
+  ): void {
     const self = this;
+    // Versions written during this run, by resource URL. Items already read into
+    // `outboxItems` predate the rewrite in the store.
+    const serverVersions = new Map<string, number>();
+
     from(outboxItems)
       .pipe(
         concatMap(function (item: OutboxItem) {
-          return self.processItem(item).pipe(
-            tap(function () {
-              self.incrementCompletedItems();
+          if (!self.offlineDetection.isOnline) {
+            return EMPTY;
+          }
+
+          if (blockedUrls.has(self.getBlockingKey(item))) {
+            self.logger.debug('SYNC', 'Waiting on earlier item', {
+              method: item.method,
+              url: item.url,
+            });
+            return EMPTY;
+          }
+
+          if (self.referencesAny(item, pendingAttachments)) {
+            self.logger.debug('SYNC', 'Waiting on attachment upload', {
+              method: item.method,
+              url: item.url,
+            });
+            blockedUrls.add(self.getBlockingKey(item));
+            return EMPTY;
+          }
+
+          return from(self.resolveTempIds(item)).pipe(
+            map(function (resolvedItem) {
+              return self.applyServerVersions(resolvedItem, serverVersions);
             }),
-            catchError(function (error: any) {
-              return self.handleSyncError(error, item);
+            concatMap(function (resolvedItem) {
+              return self.processItem(resolvedItem).pipe(
+                concatMap(function (response) {
+                  return from(
+                    self.handleSuccessfulRequest(resolvedItem, response, serverVersions)
+                  );
+                }),
+                catchError(function (error: any) {
+                  return from(self.handleSyncError(error, resolvedItem, blockedUrls));
+                })
+              );
             })
           );
         })
@@ -96,41 +449,131 @@ export class SyncService {
       .subscribe({
         next: function () {},
         complete: function () {
-          self.handleSyncComplete();
+          self.handleSyncComplete().then(done);
         },
         error: function (error) {
-          console.error('SyncService: Sync error:', error);
+          self.logger.error('SYNC', 'Sync error', { error: describeError(error) });
+          self.handleSyncComplete().then(done);
         },
       });
   }
 
+  private getBlockingKey(item: OutboxItem): string {
+    return getResourceUrl(item) || item.url;
+  }
+
+  private referencesAny(item: OutboxItem, ids: Set<string>): boolean {
+    return findTempIdsInValue(item.payload).some(function (tempId) {
+      return ids.has(tempId);
+    });
+  }
+
+  private async resolveTempIds(item: OutboxItem): Promise<OutboxItem> {
+    const mappings = await this.indexedDb.getIdMappings();
+    return mappings.reduce(function (resolved, mapping) {
+      return rewriteOutboxItemId(resolved, mapping.tempId, mapping.serverId);
+    }, item);
+  }
+
+  private applyServerVersions(item: OutboxItem, serverVersions: Map<string, number>): OutboxItem {
+    const resourceUrl = getResourceUrl(item);
+    const version = resourceUrl ? serverVersions.get(resourceUrl) : undefined;
+    return version === undefined ? item : rewriteOutboxItemVersion(item, resourceUrl!, version);
+  }
+
   private incrementCompletedItems(): void {
     this.updateStatus({
-      ...this.currentStatus,
       completedItems: this.currentStatus.completedItems + 1,
     });
   }
 
-  private async handleSyncError(error: any, item: OutboxItem): Promise<Observable<never>> {
-    if (isClientError(error.status)) {
+  private async handleSyncError(
+    error: any,
+    item: OutboxItem,
+    blockedUrls: Set<string>
+  ): Promise<void> {
+    if (isNetworkError(error)) {
+      this.offlineDetection.reportRequestFailure();
+    }
+
+    if (isClientError(error.status) && !isRetryableClientError(error.status)) {
       await this.handleClientError(error, item);
-      return EMPTY;
+      return;
     }
 
-    this.handleServerError();
-    throw error;
+    await this.handleRetryableError(error, item);
+    blockedUrls.add(this.getBlockingKey(item));
   }
 
   private async handleClientError(error: any, item: OutboxItem): Promise<void> {
-    console.log('⚠️ [SYNC] Client error (4xx):', item.method, item.url, '| Status:', error.status);
-    console.log('⚠️ [CONFLICT] Moving to sync conflicts (queue continues)');
+    this.logger.record(
+      'conflict',
+      'SYNC',
+      'Client error, moved to sync conflicts',
+      { method: item.method, url: item.url, status: error.status },
+      'warn'
+    );
 
+    const serverVersion =
+      isVersionConflict(error.status) && error.error ? error.error.current : undefined;
+    await this.moveToSyncConflicts(item, error.message || `HTTP ${error.status}`, {
+      status: error.status,
+      serverVersion,
+    });
+  }
+
+  private async handleRetryableError(error: any, item: OutboxItem): Promise<void> {
+    const attempts = (item.attempts || 0) + 1;
+    const lastError = error.message || `HTTP ${error.status}`;
+    this.runError = lastError;
+
+    if (hasExceededMaxAttempts(attempts, this.retryConfig)) {
+      this.logger.record(
+        'conflict',
+        'SYNC',
+        'Max attempts reached, moved to sync conflicts',
+        { method: item.method, url: item.url, attempts, error: lastError },
+        'warn'
+      );
+      await this.moveToSyncConflicts(item, `Gave up after ${attempts} attempts: ${lastError}`);
+      return;
+    }
+
+    const delayMs = calculateBackoffDelay(attempts, this.retryConfig);
+    this.logger.record(
+      'item-retry',
+      'SYNC',
+      'Retry scheduled',
+      { method: item.method, url: item.url, attempts, delayMs, error: lastError },
+      'warn'
+    );
+
+    await this.indexedDb.updateOutboxItem({
+      ...item,
+      attempts,
+      lastError,
+      nextRetryAt: Date.now() + delayMs,
+    });
+
+    this.updateStatus({
+      completedItems: this.currentStatus.completedItems + 1,
+      failedItems: this.currentStatus.failedItems + 1,
+    });
+  }
+
+  private async moveToSyncConflicts(
+    item: OutboxItem,
+    error: string,
+    details: Pick<SyncConflict, 'status' | 'serverVersion'> = {}
+  ): Promise<void> {
     await this.indexedDb.addToSyncConflicts({
       url: item.url,
       method: item.method,
       payload: item.payload,
+      ...pickRequestOptions(item),
       timestamp: item.timestamp,
-      error: error.message || `HTTP ${error.status}`,
+      error,
+      ...details,
     });
 
     if (item.id) {
@@ -138,31 +581,56 @@ export class SyncService {
     }
 
     this.updateStatus({
-      ...this.currentStatus,
       completedItems: this.currentStatus.completedItems + 1,
       failedItems: this.currentStatus.failedItems + 1,
     });
   }
 
-  private handleServerError(): void {
-    this.updateStatus({
-      isSyncing: false,
-      totalItems: this.currentStatus.totalItems,
-      completedItems: this.currentStatus.completedItems,
-      failedItems: this.currentStatus.failedItems,
-    });
-  }
-
   private async handleSyncComplete(): Promise<void> {
     const remainingOutbox = await this.indexedDb.getOutbox();
-    console.log('✅ [SYNC] Completed | Remaining items:', remainingOutbox.length);
+    this.logger.info('SYNC', 'Outbox drained', { remaining: remainingOutbox.length });
 
     this.updateStatus({
-      isSyncing: false,
       totalItems: 0,
       completedItems: 0,
       failedItems: 0,
+      currentItem: null,
     });
+
+    this.scheduleNextRetry(remainingOutbox);
+  }
+
+  private scheduleNextRetry(items: OutboxItem[]): void {
+    const retryTimes = items
+      .map(function (item) {
+        return item.nextRetryAt;
+      })
+      .filter(function (time): time is number {
+        return typeof time === 'number';
+      });
+    if (this.attachmentRetryAt !== null) {
+      retryTimes.push(this.attachmentRetryAt);
+    }
+
+    if (retryTimes.length === 0) {
+      return;
+    }
+
+    this.clearRetryTimer();
+
+    const delayMs = Math.max(Math.min(...retryTimes) - Date.now(), 0);
+    const self = this;
+    this.retryTimer = setTimeout(function () {
+      self.retryTimer = null;
+      self.sync();
+    }, delayMs);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
   }
 
   private processItem(item: OutboxItem): Observable<any> {
@@ -170,16 +638,10 @@ export class SyncService {
       throw new Error('Item missing ID');
     }
 
-    console.log('🔄 [SYNC] Processing:', item.method, item.url);
+    this.logger.debug('SYNC', 'Processing', { method: item.method, url: item.url });
+    this.updateStatus({ currentItem: { method: item.method, url: item.url } });
 
-    const request = this.createHttpRequest(item);
-
-    const self = this;
-    return request.pipe(
-      tap(function (response) {
-        self.handleSuccessfulRequest(item, response);
-      })
-    );
+    return this.createHttpRequest(item);
   }
 
   private hasValidItemId(item: OutboxItem): boolean {
@@ -187,38 +649,114 @@ export class SyncService {
   }
 
   private createHttpRequest(item: OutboxItem): Observable<any> {
-    const headers = new HttpHeaders({
-      'Content-Type': 'application/json',
+    const context = new HttpContext().set(SKIP_OUTBOX, true);
+
+    return this.http.request(buildOutboxRequest(item, context)).pipe(
+      filter(function (event): event is HttpResponse<any> {
+        return event instanceof HttpResponse;
+      }),
+      map(function (response) {
+        return response.body;
+      })
+    );
+  }
+
+  private async handleSuccessfulRequest(
+    item: OutboxItem,
+    response: any,
+    serverVersions: Map<string, number>
+  ): Promise<void> {
+    this.offlineDetection.reportRequestSuccess();
+    this.logger.record('item-success', 'SYNC', 'Synced', {
+      method: item.method,
+      url: item.url,
+      attempts: item.attempts || 0,
+      latencyMs: Date.now() - item.timestamp,
     });
 
-    switch (item.method) {
-      case 'POST':
-        return this.http.post(item.url, item.payload, { headers });
-      case 'PUT':
-        return this.http.put(item.url, item.payload, { headers });
-      case 'DELETE':
-        return this.http.delete(item.url, { headers });
-      default:
-        throw new Error(`Unsupported method: ${item.method}`);
+    if (item.id) {
+      await this.indexedDb.removeFromOutbox(item.id);
     }
+
+    await this.recordServerId(item, response);
+    await this.recordServerVersion(item, response, serverVersions);
+    this.incrementCompletedItems();
   }
 
-  private async handleSuccessfulRequest(item: OutboxItem, response: any): Promise<void> {
-    console.log('✅ [SYNC] Success:', item.method, item.url, '| Status:', response.status || 200);
+  private async recordServerId(item: OutboxItem, response: any): Promise<void> {
+    const tempId = item.payload && item.payload.id;
+    const serverId = response && response.id;
 
-    if (item.id) {
-      await this.indexedDb.removeFromOutbox(item.id);
-      const remainingOutbox = await this.indexedDb.getOutbox();
-      console.log('📦 [OUTBOX] Removed | Remaining:', remainingOutbox.length);
+    if (item.method !== 'POST' || !isTempId(tempId) || !serverId) {
+      return;
     }
+
+    await this.indexedDb.addIdMapping(tempId, String(serverId));
+    const rewritten = await this.indexedDb.rewriteOutboxIds(tempId, String(serverId));
+    this.logger.info('SYNC', 'Mapped temp ID', { tempId, serverId, rewritten });
   }
 
-  private updateStatus(status: SyncStatus): void {
-    this.currentStatus = status;
+  private async recordServerVersion(
+    item: OutboxItem,
+    response: any,
+    serverVersions: Map<string, number>
+  ): Promise<void> {
+    const version = response && response.version;
+
+    if (!isUpdateMethod(item.method) || typeof version !== 'number') {
+      return;
+    }
+
+    serverVersions.set(item.url, version);
+    const rewritten = await this.indexedDb.rewriteOutboxVersions(item.url, version);
+    if (rewritten > 0) {
+      this.logger.info('SYNC', 'Moved queued writes to new version', {
+        url: item.url,
+        version,
+        rewritten,
+      });
+    }
+  }
+
+  private updateStatus(changes: Partial<SyncStatus>): void {
+    const status = { ...this.currentStatus, ...changes };
     this.statusSubject.next(status);
+    this.tabCoordination.publish({ type: 'sync-status', payload: status });
   }
 
   triggerSync(): void {
     this.sync();
   }
+
+  async isPaused(): Promise<boolean> {
+    return !!(await this.indexedDb.getSyncMeta(OUTBOX_PAUSED_KEY));
+  }
+
+  // Emits whenever any tab pauses or resumes the outbox.
+  watchPaused(): Observable<boolean> {
+    return this.indexedDb.watchSyncMeta(OUTBOX_PAUSED_KEY).pipe(
+      map(function (value) {
+        return !!value;
+      })
+    );
+  }
+
+  async pause(): Promise<void> {
+    await this.indexedDb.setSyncMeta(OUTBOX_PAUSED_KEY, true);
+    this.logger.info('SYNC', 'Outbox paused');
+  }
+
+  async resume(): Promise<void> {
+    await this.indexedDb.setSyncMeta(OUTBOX_PAUSED_KEY, false);
+    this.logger.info('SYNC', 'Outbox resumed');
+    this.sync();
+  }
+
+  // Drops the backoff so the item goes out on the next run, which starts now
+  // unless the outbox is paused.
+  async retryItem(item: OutboxItem): Promise<void> {
+    await this.indexedDb.updateOutboxItem({ ...item, nextRetryAt: undefined });
+    this.logger.info('SYNC', 'Manual retry', { method: item.method, url: item.url });
+    this.sync();
+  }
 }
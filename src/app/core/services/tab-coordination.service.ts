@@ -0,0 +1,105 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { LoggerService } from './logger.service';
+import { describeError } from '../utils/log.utils';
+
+export const OUTBOX_SYNC_LOCK = 'offline-first-outbox-sync';
+
+// Held while rotating the data key and re-encrypting records, so no tab retires a key
+// that another tab is still moving records off.
+export const KEY_ROTATION_LOCK = 'offline-first-key-rotation';
+
+const CHANNEL_NAME = 'offline-first-app';
+
+export interface TabMessage {
+  type: 'sync-status' | 'data-changed';
+  payload: any;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TabCoordinationService implements OnDestroy {
+  private channel: BroadcastChannel | null = null;
+  private messageSubject = new Subject<TabMessage>();
+
+  constructor(
+    private zone: NgZone,
+    private logger: LoggerService
+  ) {
+    this.openChannel();
+  }
+
+  get messages$(): Observable<TabMessage> {
+    return this.messageSubject.asObservable();
+  }
+
+  publish(message: TabMessage): void {
+    if (!this.channel) {
+      return;
+    }
+
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      this.logger.error('TABS', 'Could not broadcast tab message', {
+        type: message.type,
+        error: describeError(error),
+      });
+    }
+  }
+
+  // Runs `task` only if no other tab (or the service worker) holds the lock.
+  // Resolves to `null` without running the task when the lock is taken.
+  async runExclusive<T>(lockName: string, task: () => Promise<T>): Promise<T | null> {
+    if (!navigator.locks) {
+      return task();
+    }
+
+    let acquired = false;
+    const result = await navigator.locks.request(
+      lockName,
+      { ifAvailable: true },
+      async function (lock) {
+        if (!lock) {
+          return null;
+        }
+        acquired = true;
+        return task();
+      }
+    );
+
+    return acquired ? (result as T) : null;
+  }
+
+  // Waits for the lock, then runs `task` while holding it.
+  async runLocked<T>(lockName: string, task: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) {
+      return task();
+    }
+    return navigator.locks.request(lockName, function () {
+      return task();
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+
+  private openChannel(): void {
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    const self = this;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = function (event: MessageEvent<TabMessage>) {
+      self.zone.run(function () {
+        self.messageSubject.next(event.data);
+      });
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { HttpHandler, HttpRequest, HttpResponse } from '@angular/common/http';
+import { firstValueFrom, of } from 'rxjs';
+import { OfflineInterceptor } from '../interceptors/offline.interceptor';
+import { DEFAULT_CACHE_POLICIES } from '../utils/cache-policy.utils';
+import { backgroundSyncStub, createIndexedDbService } from '../testing/service-stubs';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { OfflineDetectionService } from './offline-detection.service';
+import { UserContextService } from './user-context.service';
+
+const REPORT_URL = '/api/reports/weekly';
+
+const logger = new LoggerService([]);
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('UserContextService cache scoping', () => {
+  let db: IndexedDbService;
+  let userContext: UserContextService;
+  let interceptor: OfflineInterceptor;
+  let connectivity: {
+    isOnline: boolean;
+    reportRequestSuccess(): void;
+    reportRequestFailure(): void;
+  };
+
+  // Answers with whichever user is signed in, as a real server would.
+  const next: HttpHandler = {
+    handle: () =>
+      of(new HttpResponse({ status: 200, body: { owner: userContext.currentUser!.userId } })),
+  };
+
+  async function getReport(): Promise<HttpResponse<any>> {
+    const response = await firstValueFrom(
+      interceptor.intercept(new HttpRequest('GET', REPORT_URL), next)
+    );
+    // Responses are cached without holding up the caller.
+    await wait(50);
+    return response as HttpResponse<any>;
+  }
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+    db = createIndexedDbService(logger);
+    userContext = new UserContextService(db, logger);
+    connectivity = {
+      isOnline: true,
+      reportRequestSuccess: () => {},
+      reportRequestFailure: () => {},
+    };
+    interceptor = new OfflineInterceptor(
+      db,
+      connectivity as unknown as OfflineDetectionService,
+      userContext,
+      backgroundSyncStub,
+      logger,
+      DEFAULT_CACHE_POLICIES,
+      '15s'
+    );
+  });
+
+  it('should not serve one user the responses cached for another', async () => {
+    await userContext.setUser({ userId: 'ann' });
+    expect((await getReport()).body).toEqual({ owner: 'ann' });
+
+    await userContext.setUser({ userId: 'bob' });
+    connectivity.isOnline = false;
+    const offline = await getReport();
+
+    expect(offline.status).toBe(503);
+    expect(offline.body).not.toEqual({ owner: 'ann' });
+  });
+
+  it('should keep each user in their own scope and drop the previous one on switch', async () => {
+    await userContext.setUser({ userId: 'ann', tenantId: 'north' });
+    await getReport();
+    expect((await db.getCacheItems()).map((item) => item.scope)).toEqual(['north:ann']);
+
+    await userContext.setUser({ userId: 'bob', tenantId: 'north' });
+    await getReport();
+
+    expect((await db.getCacheItems()).map((item) => item.scope)).toEqual(['north:bob']);
+    connectivity.isOnline = false;
+    expect((await getReport()).body).toEqual({ owner: 'bob' });
+  });
+});
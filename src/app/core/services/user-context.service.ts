@@ -0,0 +1,67 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { UserContext } from '../models';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+import { buildCacheScope } from '../utils/cache-key.utils';
+import { describeError } from '../utils/log.utils';
+
+const STORAGE_KEY = 'offline-first-user';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UserContextService {
+  private userSubject: BehaviorSubject<UserContext | null>;
+
+  constructor(
+    private indexedDb: IndexedDbService,
+    private logger: LoggerService
+  ) {
+    this.userSubject = new BehaviorSubject<UserContext | null>(this.loadStoredUser());
+  }
+
+  get user$(): Observable<UserContext | null> {
+    return this.userSubject.asObservable();
+  }
+
+  get currentUser(): UserContext | null {
+    return this.userSubject.value;
+  }
+
+  get cacheScope(): string {
+    return buildCacheScope(this.currentUser);
+  }
+
+  // Cache keys are scoped per user, so a new user never reads the old one's entries;
+  // switching also removes those entries from the device.
+  async setUser(user: UserContext): Promise<void> {
+    const previousScope = this.cacheScope;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
+    this.userSubject.next(user);
+
+    if (buildCacheScope(user) !== previousScope) {
+      this.logger.info('CACHE', 'User changed, clearing previous cache scope');
+      await this.indexedDb.clearCacheScope(previousScope);
+    }
+  }
+
+  async signOut(): Promise<void> {
+    const scope = this.cacheScope;
+    localStorage.removeItem(STORAGE_KEY);
+    this.userSubject.next(null);
+    await this.indexedDb.clearCacheScope(scope);
+  }
+
+  private loadStoredUser(): UserContext | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      this.logger.error('CACHE', 'Could not read stored user context', {
+        error: describeError(error),
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { EMPTY, of } from 'rxjs';
+import { BackgroundSyncService } from '../services/background-sync.service';
+import { EncryptionService } from '../services/encryption.service';
+import { IndexedDbService } from '../services/indexed-db.service';
+import { LoggerService } from '../services/logger.service';
+import { TabCoordinationService } from '../services/tab-coordination.service';
+
+// Stand-ins for the services a real IndexedDbService or SyncService needs in specs: a single
+// tab holding every lock, encryption switched off and no service worker.
+
+export const tabCoordinationStub = {
+  messages$: EMPTY,
+  publish: () => {},
+  runExclusive: (lockName: string, task: () => Promise<unknown>) => task(),
+  runLocked: (lockName: string, task: () => Promise<unknown>) => task(),
+} as unknown as TabCoordinationService;
+
+export const encryptionStub = {
+  state$: of('disabled'),
+  wiped$: EMPTY,
+  isEnabled: false,
+  whenUnlocked: () => Promise.resolve(),
+} as unknown as EncryptionService;
+
+export const backgroundSyncStub = {
+  messages$: EMPTY,
+  registerPeriodicSync: () => Promise.resolve(false),
+  requestSync: () => Promise.resolve(false),
+} as unknown as BackgroundSyncService;
+
+// A real database on whatever IndexedDB the spec installed, usually a fresh fake-indexeddb.
+export function createIndexedDbService(
+  logger: LoggerService,
+  encryption: EncryptionService = encryptionStub
+): IndexedDbService {
+  return new IndexedDbService(tabCoordinationStub, encryption, backgroundSyncStub, logger);
+}
@@ -0,0 +1,42 @@
+import { Attachment } from '../models';
+import { createChunkForm, getChunk, getUploadProgress } from './attachment.utils';
+
+function attachment(overrides: Partial<Attachment>): Attachment {
+  return {
+    id: 'tmp-1',
+    name: 'wound.jpg',
+    type: 'image/jpeg',
+    size: 400,
+    status: 'uploading',
+    uploadedBytes: 0,
+    timestamp: 1,
+    ...overrides,
+  };
+}
+
+describe('getChunk', () => {
+  it('should cut the last chunk short at the end of the file', () => {
+    const bytes = new Uint8Array([1, 2, 3, 4, 5]);
+
+    expect(Array.from(getChunk(bytes, 0, 2))).toEqual([1, 2]);
+    expect(Array.from(getChunk(bytes, 4, 2))).toEqual([5]);
+    expect(getChunk(bytes, 5, 2).length).toBe(0);
+  });
+});
+
+describe('createChunkForm', () => {
+  it('should send the offset alongside the chunk', () => {
+    const form = createChunkForm(256, new Uint8Array([1, 2, 3]), 'image/jpeg');
+
+    expect(form.get('offset')).toBe('256');
+    expect((form.get('chunk') as Blob).size).toBe(3);
+    expect((form.get('chunk') as Blob).type).toBe('image/jpeg');
+  });
+});
+
+describe('getUploadProgress', () => {
+  it('should report the share of bytes the server has', () => {
+    expect(getUploadProgress(attachment({ uploadedBytes: 100 }))).toBe(25);
+    expect(getUploadProgress(attachment({ size: 0, status: 'uploaded' }))).toBe(100);
+  });
+});
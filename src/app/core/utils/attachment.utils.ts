@@ -0,0 +1,49 @@
+import { Attachment, AttachmentRef } from '../models';
+
+export const ATTACHMENTS_PATH = '/api/attachments';
+export const UPLOADS_PATH = ATTACHMENTS_PATH + '/uploads';
+
+// Small enough that a dropped connection loses little work, large enough to
+// keep the request count down for phone photos.
+export const ATTACHMENT_CHUNK_SIZE = 256 * 1024;
+
+// Attachments are base64-encoded and encrypted as one record, so keep them modest.
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export function getUploadUrl(uploadId: string): string {
+  return UPLOADS_PATH + '/' + uploadId;
+}
+
+export function getAttachmentUrl(id: string): string {
+  return ATTACHMENTS_PATH + '/' + id;
+}
+
+export function toAttachmentRef(attachment: Attachment): AttachmentRef {
+  return {
+    id: attachment.id,
+    name: attachment.name,
+    type: attachment.type,
+    size: attachment.size,
+  };
+}
+
+export function getChunk(bytes: Uint8Array, offset: number, chunkSize: number): Uint8Array {
+  return bytes.subarray(offset, Math.min(offset + chunkSize, bytes.length));
+}
+
+// Multipart body for one chunk; the server rejects it unless `offset` matches
+// what it has already received.
+export function createChunkForm(offset: number, chunk: Uint8Array, type: string): FormData {
+  const form = new FormData();
+  form.append('offset', String(offset));
+  form.append('chunk', new Blob([chunk as Uint8Array<ArrayBuffer>], { type }));
+  return form;
+}
+
+export function getUploadProgress(attachment: Attachment): number {
+  if (attachment.size === 0) {
+    return attachment.status === 'uploaded' ? 100 : 0;
+  }
+  return Math.round((attachment.uploadedBytes / attachment.size) * 100);
+}
+
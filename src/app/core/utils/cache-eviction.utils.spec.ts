@@ -0,0 +1,24 @@
+import { CacheItem } from '../models';
+import { selectEvictionsToFree, selectLruEvictions } from './cache-eviction.utils';
+
+function entry(key: string, lastAccessed: number, size: number): CacheItem {
+  return { key, data: null, timestamp: 0, lastAccessed, size };
+}
+
+describe('cache eviction utils', () => {
+  const items = [entry('c', 30, 100), entry('a', 10, 100), entry('b', 20, 100)];
+
+  it('should evict least recently used entries beyond maxEntries', () => {
+    expect(selectLruEvictions(items, 2, Infinity)).toEqual(['a']);
+    expect(selectLruEvictions(items, 3, Infinity)).toEqual([]);
+  });
+
+  it('should evict least recently used entries beyond maxBytes', () => {
+    expect(selectLruEvictions(items, 10, 150)).toEqual(['a', 'b']);
+  });
+
+  it('should free at least the requested number of bytes', () => {
+    expect(selectEvictionsToFree(items, 150)).toEqual(['a', 'b']);
+    expect(selectEvictionsToFree(items, 0)).toEqual([]);
+  });
+});
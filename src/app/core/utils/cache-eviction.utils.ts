@@ -0,0 +1,82 @@
+import { CacheItem } from '../models';
+
+// The cache fields eviction reads. They stay cleartext in sealed records.
+export type CacheEntryStats = Pick<
+  CacheItem,
+  'key' | 'timestamp' | 'lastAccessed' | 'size' | 'policy'
+>;
+
+export interface CacheBudget {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+  sweepIntervalMs: number;
+  quotaThreshold: number;
+}
+
+export const DEFAULT_CACHE_BUDGET: CacheBudget = {
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 200,
+  maxBytes: 5 * 1024 * 1024,
+  sweepIntervalMs: 5 * 60 * 1000,
+  quotaThreshold: 0.8,
+};
+
+export function estimateSize(data: any): number {
+  if (data === undefined || data === null) {
+    return 0;
+  }
+  return new TextEncoder().encode(JSON.stringify(data)).byteLength;
+}
+
+function getLastUsed(item: CacheEntryStats): number {
+  return item.lastAccessed || item.timestamp;
+}
+
+function sortLeastRecentlyUsed(items: CacheEntryStats[]): CacheEntryStats[] {
+  return items.slice().sort(function (a, b) {
+    return getLastUsed(a) - getLastUsed(b);
+  });
+}
+
+export function getTotalSize(items: CacheEntryStats[]): number {
+  return items.reduce(function (total, item) {
+    return total + (item.size || 0);
+  }, 0);
+}
+
+export function selectLruEvictions(
+  items: CacheEntryStats[],
+  maxEntries: number,
+  maxBytes: number
+): string[] {
+  const evicted: string[] = [];
+  let count = items.length;
+  let bytes = getTotalSize(items);
+
+  for (const item of sortLeastRecentlyUsed(items)) {
+    if (count <= maxEntries && bytes <= maxBytes) {
+      break;
+    }
+    evicted.push(item.key);
+    count--;
+    bytes -= item.size || 0;
+  }
+
+  return evicted;
+}
+
+export function selectEvictionsToFree(items: CacheEntryStats[], bytesToFree: number): string[] {
+  const evicted: string[] = [];
+  let freed = 0;
+
+  for (const item of sortLeastRecentlyUsed(items)) {
+    if (freed >= bytesToFree) {
+      break;
+    }
+    evicted.push(item.key);
+    freed += item.size || 0;
+  }
+
+  return evicted;
+}
@@ -0,0 +1,40 @@
+import { HttpHeaders, HttpParams, HttpRequest } from '@angular/common/http';
+import { buildCacheKey } from './cache-key.utils';
+
+function get(url: string, params?: HttpParams, headers?: HttpHeaders): HttpRequest<any> {
+  return new HttpRequest('GET', url, { params, headers });
+}
+
+describe('buildCacheKey', () => {
+  it('should normalize query param order across inline and HttpParams sources', () => {
+    const a = get('/api/session-notes?b=2', new HttpParams().set('a', '1'));
+    const b = get('/api/session-notes', new HttpParams().set('b', '2').set('a', '1'));
+
+    expect(buildCacheKey(a, null)).toBe(buildCacheKey(b, null));
+    expect(buildCacheKey(a, null)).toBe('anonymous|/api/session-notes?a=1&b=2|');
+  });
+
+  it('should separate entries by user and tenant', () => {
+    const req = get('/api/session-notes');
+
+    expect(buildCacheKey(req, { userId: 'u1' })).not.toBe(buildCacheKey(req, { userId: 'u2' }));
+    expect(buildCacheKey(req, { userId: 'u1', tenantId: 't1' })).toBe(
+      't1:u1|/api/session-notes|'
+    );
+  });
+
+  it('should include only the configured vary headers', () => {
+    const en = new HttpHeaders({ 'Accept-Language': 'en', 'X-Trace': '1' });
+    const fr = new HttpHeaders({ 'Accept-Language': 'fr', 'X-Trace': '2' });
+    const enReq = get('/api/x', undefined, en);
+    const frReq = get('/api/x', undefined, fr);
+
+    expect(buildCacheKey(enReq, null)).toBe(buildCacheKey(frReq, null));
+    expect(buildCacheKey(enReq, null, ['Accept-Language'])).toBe(
+      'anonymous|/api/x|accept-language=en'
+    );
+    expect(buildCacheKey(frReq, null, ['Accept-Language'])).toBe(
+      'anonymous|/api/x|accept-language=fr'
+    );
+  });
+});
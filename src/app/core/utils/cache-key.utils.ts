@@ -0,0 +1,59 @@
+import { HttpParams, HttpRequest } from '@angular/common/http';
+import { UserContext } from '../models';
+
+export const ANONYMOUS_SCOPE = 'anonymous';
+
+export function buildCacheScope(user: UserContext | null): string {
+  if (!user) {
+    return ANONYMOUS_SCOPE;
+  }
+  return user.tenantId ? `${user.tenantId}:${user.userId}` : user.userId;
+}
+
+function getPath(url: string): string {
+  const queryStart = url.indexOf('?');
+  return queryStart === -1 ? url : url.substring(0, queryStart);
+}
+
+export function normalizeParams(req: HttpRequest<any>): string {
+  const queryStart = req.url.indexOf('?');
+  const inlineParams = new HttpParams({
+    fromString: queryStart === -1 ? '' : req.url.substring(queryStart + 1),
+  });
+  const pairs: string[] = [];
+
+  [inlineParams, req.params].forEach(function (params) {
+    params.keys().forEach(function (key) {
+      (params.getAll(key) || []).forEach(function (value) {
+        pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+      });
+    });
+  });
+
+  return pairs.sort().join('&');
+}
+
+export function normalizeVaryHeaders(req: HttpRequest<any>, varyHeaders: string[]): string {
+  return varyHeaders
+    .map(function (name) {
+      return name.toLowerCase();
+    })
+    .sort()
+    .map(function (name) {
+      return `${name}=${req.headers.get(name) || ''}`;
+    })
+    .join(';');
+}
+
+// Keys look like `scope|/api/path?a=1&b=2|accept-language=en`, so entries from
+// different users or query variants never collide.
+export function buildCacheKey(
+  req: HttpRequest<any>,
+  user: UserContext | null,
+  varyHeaders: string[] = []
+): string {
+  const params = normalizeParams(req);
+  const path = getPath(req.url);
+  const url = params ? `${path}?${params}` : path;
+  return [buildCacheScope(user), url, normalizeVaryHeaders(req, varyHeaders)].join('|');
+}
@@ -0,0 +1,43 @@
+import {
+  CachePolicy,
+  DEFAULT_CACHE_POLICY,
+  findCachePolicy,
+  isCacheItemExpired,
+  matchesUrlPattern,
+  parseDuration,
+} from './cache-policy.utils';
+
+describe('cache policy utils', () => {
+  it('should parse ngsw-style durations', () => {
+    expect(parseDuration('10s')).toBe(10000);
+    expect(parseDuration('1h30m')).toBe(5400000);
+    expect(parseDuration('2d')).toBe(172800000);
+  });
+
+  it('should match single and double star globs', () => {
+    expect(matchesUrlPattern('/api/session-notes/1', '/api/session-notes/*')).toBe(true);
+    expect(matchesUrlPattern('/api/session-notes/1/photos', '/api/session-notes/*')).toBe(false);
+    expect(matchesUrlPattern('/api/session-notes/1/photos', '/api/**')).toBe(true);
+    expect(matchesUrlPattern('/api/session-notes', '/api/session-notes')).toBe(true);
+  });
+
+  it('should pick the first matching policy and fall back to the default', () => {
+    const policies: CachePolicy[] = [
+      { name: 'clients', urls: ['/api/clients/**'], strategy: 'cache-first' },
+      { name: 'api', urls: ['/api/**'], strategy: 'network-only' },
+    ];
+
+    expect(findCachePolicy('/api/clients/7', policies).name).toBe('clients');
+    expect(findCachePolicy('/api/shifts', policies).name).toBe('api');
+    expect(findCachePolicy('/assets/logo.png', policies)).toBe(DEFAULT_CACHE_POLICY);
+  });
+
+  it('should expire cache items older than maxAge', () => {
+    const policy: CachePolicy = { name: 'p', urls: [], strategy: 'cache-first', maxAge: '1m' };
+    const item = { key: '/api/x', data: [], timestamp: 0 };
+
+    expect(isCacheItemExpired(item, policy, 59000)).toBe(false);
+    expect(isCacheItemExpired(item, policy, 61000)).toBe(true);
+    expect(isCacheItemExpired(item, DEFAULT_CACHE_POLICY, 1e12)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { CacheItem, EntityDefinition } from '../models';
+import { SESSION_NOTES_ENTITY, getChangesPath } from './entity.utils';
+import { ATTACHMENTS_PATH } from './attachment.utils';
+
+export type CacheStrategy =
+  | 'network-first'
+  | 'cache-first'
+  | 'stale-while-revalidate'
+  | 'network-only'
+  | 'cache-only';
+
+// Mirrors the shape of `dataGroups` in ngsw-config.json: durations use the same
+// `1d2h30m10s` notation and URL patterns support `*` and `**` globs.
+export interface CachePolicy {
+  name: string;
+  urls: string[];
+  strategy: CacheStrategy;
+  maxAge?: string;
+  maxEntries?: number;
+  timeout?: string;
+  varyHeaders?: string[];
+}
+
+export const DEFAULT_CACHE_POLICY: CachePolicy = {
+  name: 'default',
+  urls: ['/**'],
+  strategy: 'network-first',
+};
+
+// The change feed is never cached so a pull cannot replay stale changes.
+export function createEntityCachePolicies(
+  entity: EntityDefinition,
+  options: Omit<CachePolicy, 'name' | 'urls'>
+): CachePolicy[] {
+  return [
+    {
+      name: entity.name + '-changes',
+      urls: [getChangesPath(entity)],
+      strategy: 'network-only',
+    },
+    {
+      name: entity.name,
+      urls: [entity.basePath, entity.basePath + '/**'],
+      ...options,
+    },
+  ];
+}
+
+export const DEFAULT_CACHE_POLICIES: CachePolicy[] = [
+  ...createEntityCachePolicies(SESSION_NOTES_ENTITY, {
+    strategy: 'network-first',
+    maxAge: '1d',
+    maxEntries: 50,
+    timeout: '10s',
+    varyHeaders: ['Accept-Language'],
+  }),
+  // Uploads must reach the server, and downloaded files are kept by AttachmentService.
+  { name: 'attachments', urls: [ATTACHMENTS_PATH + '/**'], strategy: 'network-only' },
+];
+
+const DURATION_UNITS: Record<string, number> = {
+  d: 86400000,
+  h: 3600000,
+  m: 60000,
+  s: 1000,
+  u: 1,
+};
+
+export function parseDuration(duration: string): number {
+  const pattern = /(\d+)([dhmsu])/g;
+  let total = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(duration)) !== null) {
+    total += parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+  }
+
+  return total;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(function (part) {
+      return part
+        .split('*')
+        .map(function (literal) {
+          return literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('[^/]*');
+    })
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(url);
+}
+
+export function findCachePolicy(url: string, policies: CachePolicy[]): CachePolicy {
+  const policy = policies.find(function (candidate) {
+    return candidate.urls.some(function (pattern) {
+      return matchesUrlPattern(url, pattern);
+    });
+  });
+  return policy || DEFAULT_CACHE_POLICY;
+}
+
+export function isCacheItemExpired(item: CacheItem, policy: CachePolicy, now: number): boolean {
+  if (!policy.maxAge) {
+    return false;
+  }
+  return now - item.timestamp > parseDuration(policy.maxAge);
+}
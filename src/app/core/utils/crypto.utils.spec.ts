@@ -0,0 +1,95 @@
+import {
+  decryptJson,
+  deriveWrappingKey,
+  encryptJson,
+  generateSalt,
+  generateWrappedKey,
+  hashValue,
+  rewrapKey,
+  splitRecord,
+  unwrapKey,
+} from './crypto.utils';
+
+const ITERATIONS = 1000;
+
+function wrappingKey(passphrase = '123456', salt = generateSalt()): Promise<CryptoKey> {
+  return deriveWrappingKey(passphrase, salt, ITERATIONS);
+}
+
+describe('encryptJson', () => {
+  it('should round-trip a value without exposing it in the payload', async () => {
+    const { key } = await generateWrappedKey('data', await wrappingKey());
+    const value = { clientName: 'Ann', note: 'Took medication at 9am' };
+
+    const payload = await encryptJson(value, key, 'k1');
+
+    expect(payload.kid).toBe('k1');
+    expect(payload.data).not.toContain('Ann');
+    expect(await decryptJson(payload, key)).toEqual(value);
+  });
+});
+
+describe('generateWrappedKey', () => {
+  it('should only unwrap with a key derived from the same passphrase', async () => {
+    const salt = generateSalt();
+    const { key, wrapped } = await generateWrappedKey('data', await wrappingKey('123456', salt));
+
+    const unwrapped = await unwrapKey(wrapped, await wrappingKey('123456', salt), 'data');
+    const payload = await encryptJson('secret', key, 'k1');
+    expect(await decryptJson(payload, unwrapped)).toBe('secret');
+
+    const wrongKey = await wrappingKey('654321', salt);
+    await expect(unwrapKey(wrapped, wrongKey, 'data')).rejects.toBeTruthy();
+  });
+
+  it('should hand out keys that cannot be exported', async () => {
+    const salt = generateSalt();
+    const { key, wrapped } = await generateWrappedKey('data', await wrappingKey('123456', salt));
+    const unwrapped = await unwrapKey(wrapped, await wrappingKey('123456', salt), 'data');
+
+    expect(key.extractable).toBe(false);
+    expect(unwrapped.extractable).toBe(false);
+    await expect(crypto.subtle.exportKey('raw', key)).rejects.toBeTruthy();
+  });
+});
+
+describe('rewrapKey', () => {
+  it('should move a key to a new passphrase', async () => {
+    const current = await wrappingKey('123456');
+    const next = await wrappingKey('999999');
+    const { key, wrapped } = await generateWrappedKey('data', current);
+
+    const rewrapped = await rewrapKey(wrapped, current, next, 'data');
+
+    const payload = await encryptJson('secret', key, 'k1');
+    expect(await decryptJson(payload, await unwrapKey(rewrapped, next, 'data'))).toBe('secret');
+    await expect(unwrapKey(rewrapped, current, 'data')).rejects.toBeTruthy();
+  });
+});
+
+describe('hashValue', () => {
+  it('should hash equal values alike and hide them', async () => {
+    const key = await wrappingKey();
+    const { key: hashKey } = await generateWrappedKey('hash', key);
+    const url = 'anonymous|/api/session-notes?clientName=Ann';
+
+    const hash = await hashValue(url, hashKey);
+
+    expect(hash).not.toContain('Ann');
+    expect(await hashValue(url, hashKey)).toBe(hash);
+    const { key: otherHashKey } = await generateWrappedKey('hash', key);
+    expect(await hashValue(url, otherHashKey)).not.toBe(hash);
+  });
+});
+
+describe('splitRecord', () => {
+  it('should keep only the listed fields in cleartext', () => {
+    const result = splitRecord(
+      { id: '1', timestamp: 5, clientName: 'Ann', note: 'x' },
+      ['id', 'timestamp']
+    );
+
+    expect(result.cleartext).toEqual({ id: '1', timestamp: 5 });
+    expect(result.secret).toEqual({ clientName: 'Ann', note: 'x' });
+  });
+});
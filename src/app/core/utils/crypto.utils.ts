@@ -0,0 +1,192 @@
+export interface EncryptionConfig {
+  enabled: boolean;
+  iterations: number;
+  maxFailedAttempts: number;
+  wipeOnMaxFailures: boolean;
+}
+
+export const DEFAULT_ENCRYPTION_CONFIG: EncryptionConfig = {
+  enabled: true,
+  iterations: 310000,
+  maxFailedAttempts: 5,
+  wipeOnMaxFailures: true,
+};
+
+export interface EncryptedPayload {
+  kid: string;
+  iv: string;
+  data: string;
+}
+
+export interface WrappedKey {
+  iv: string;
+  data: string;
+}
+
+// A record whose sensitive fields live in `sealed`; the rest stay readable for keys and indexes.
+export type SealedRecord<T> = Partial<T> & { sealed: EncryptedPayload };
+
+const AES_GCM = 'AES-GCM';
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(function (byte) {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+export function generateKeyId(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(6)));
+}
+
+export async function deriveWrappingKey(
+  passphrase: string,
+  salt: string,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: AES_GCM, length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+export type KeyPurpose = 'data' | 'hash';
+
+// Data keys encrypt records. Hash keys are separate HMAC keys for lookup hashes, so
+// the encryption key is never used for another purpose or exported to derive one.
+const KEY_PARAMS: Record<
+  KeyPurpose,
+  { algorithm: AesKeyGenParams | HmacKeyGenParams; usages: KeyUsage[] }
+> = {
+  data: { algorithm: { name: AES_GCM, length: 256 }, usages: ['encrypt', 'decrypt'] },
+  hash: { algorithm: { name: 'HMAC', hash: 'SHA-256', length: 256 }, usages: ['sign'] },
+};
+
+// The new key is only extractable long enough to be wrapped. The copy returned for use
+// is unwrapped as non-extractable, so page scripts cannot export it.
+export async function generateWrappedKey(
+  purpose: KeyPurpose,
+  wrappingKey: CryptoKey
+): Promise<{ key: CryptoKey; wrapped: WrappedKey }> {
+  const params = KEY_PARAMS[purpose];
+  const generated = (await crypto.subtle.generateKey(
+    params.algorithm,
+    true,
+    params.usages
+  )) as CryptoKey;
+  const wrapped = await wrapKey(generated, wrappingKey);
+  return { key: await unwrapKey(wrapped, wrappingKey, purpose), wrapped };
+}
+
+// Rejects when the wrapping key is wrong, since the GCM tag will not verify.
+export function unwrapKey(
+  wrapped: WrappedKey,
+  wrappingKey: CryptoKey,
+  purpose: KeyPurpose,
+  extractable = false
+): Promise<CryptoKey> {
+  const params = KEY_PARAMS[purpose];
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrapped.data),
+    wrappingKey,
+    { name: AES_GCM, iv: fromBase64(wrapped.iv) },
+    params.algorithm,
+    extractable,
+    params.usages
+  );
+}
+
+// Moves a wrapped key under a new wrapping key. The extractable copy this needs never
+// leaves the function.
+export async function rewrapKey(
+  wrapped: WrappedKey,
+  currentWrappingKey: CryptoKey,
+  nextWrappingKey: CryptoKey,
+  purpose: KeyPurpose
+): Promise<WrappedKey> {
+  const key = await unwrapKey(wrapped, currentWrappingKey, purpose, true);
+  return wrapKey(key, nextWrappingKey);
+}
+
+async function wrapKey(key: CryptoKey, wrappingKey: CryptoKey): Promise<WrappedKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: AES_GCM, iv });
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+export async function encryptJson(
+  value: any,
+  key: CryptoKey,
+  kid: string
+): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const data = await crypto.subtle.encrypt({ name: AES_GCM, iv }, key, plaintext);
+  return { kid, iv: toBase64(iv), data: toBase64(data) };
+}
+
+export async function decryptJson(payload: EncryptedPayload, key: CryptoKey): Promise<any> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: AES_GCM, iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+// Deterministic, so equal values map to the same stored key, but unreadable without the key.
+export async function hashValue(value: string, hashKey: CryptoKey): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', hashKey, new TextEncoder().encode(value));
+  return toBase64(signature);
+}
+
+export function isSealedRecord(record: any): record is SealedRecord<any> {
+  return !!record && typeof record === 'object' && !!record.sealed;
+}
+
+export function splitRecord(
+  record: any,
+  cleartextFields: readonly string[]
+): { cleartext: any; secret: any } {
+  const cleartext: any = {};
+  const secret: any = {};
+
+  Object.keys(record).forEach(function (field) {
+    if (cleartextFields.includes(field)) {
+      cleartext[field] = record[field];
+    } else {
+      secret[field] = record[field];
+    }
+  });
+
+  return { cleartext, secret };
+}
@@ -10,3 +10,24 @@ export function generateId(): string {
   return Date.now().toString();
 }
 
+
+// Compact elapsed time such as `45s`, `12m`, `3h` or `2d`.
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+  return formatDuration(now - timestamp);
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(Math.floor(ms / 1000), 0);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h`;
+  }
+  return `${Math.floor(hours / 24)}d`;
+}
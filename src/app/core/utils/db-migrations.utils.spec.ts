@@ -0,0 +1,193 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { IDBPDatabase, openDB } from 'idb';
+import {
+  DB_MIGRATIONS,
+  DbMigration,
+  LATEST_DB_VERSION,
+  UpgradeDatabase,
+  UpgradeTransaction,
+  getPendingMigrations,
+  moveRecords,
+  upgradeDatabase,
+} from './db-migrations.utils';
+import { LoggerService } from '../services/logger.service';
+
+const DB_NAME = 'migration-test-db';
+
+function openLatest(migrations: DbMigration[] = DB_MIGRATIONS): Promise<IDBPDatabase> {
+  const version = migrations[migrations.length - 1].version;
+  return openDB(DB_NAME, version, {
+    upgrade(db, oldVersion, newVersion, transaction) {
+      upgradeDatabase(
+        db as UpgradeDatabase,
+        oldVersion,
+        transaction as unknown as UpgradeTransaction,
+        new LoggerService([]),
+        migrations
+      );
+    },
+  });
+}
+
+// Schema written by the app before the migration list existed.
+async function createV1Database(): Promise<void> {
+  const db = await openDB(DB_NAME, 1, {
+    upgrade(db) {
+      db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true }).createIndex(
+        'by-timestamp',
+        'timestamp'
+      );
+      db.createObjectStore('syncConflicts', { keyPath: 'id', autoIncrement: true }).createIndex(
+        'by-timestamp',
+        'timestamp'
+      );
+      db.createObjectStore('cache', { keyPath: 'key' }).createIndex('by-timestamp', 'timestamp');
+    },
+  });
+  await db.add('outbox', { url: '/api/session-notes', method: 'POST', payload: {}, timestamp: 1 });
+  await db.add('syncConflicts', { url: '/api/x', method: 'PUT', timestamp: 2, error: 'HTTP 400' });
+  await db.put('cache', { key: '/api/session-notes', data: [], timestamp: 3 });
+  db.close();
+}
+
+async function createV2Database(): Promise<void> {
+  await createV1Database();
+  const db = await openDB(DB_NAME, 2, {
+    upgrade(db) {
+      db.createObjectStore('sessionNotes', { keyPath: 'id' }).createIndex(
+        'by-timestamp',
+        'timestamp'
+      );
+    },
+  });
+  await db.put('sessionNotes', {
+    id: '1',
+    clientName: 'Ann',
+    note: 'First visit',
+    timestamp: 10,
+    shiftDate: '2026-01-05',
+  });
+  db.close();
+}
+
+describe('DB_MIGRATIONS', () => {
+  let db: IDBPDatabase | null;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    db = null;
+  });
+
+  afterEach(() => {
+    db?.close();
+  });
+
+  it('should be ordered by strictly increasing version', () => {
+    const versions = DB_MIGRATIONS.map((migration) => migration.version);
+    expect(versions).toEqual(versions.map((_, i) => i + 1));
+    expect(LATEST_DB_VERSION).toBe(versions.length);
+  });
+
+  it('should create every store in a fresh database', async () => {
+    db = await openLatest();
+
+    expect(Array.from(db.objectStoreNames).sort()).toEqual([
+      'attachmentData',
+      'attachments',
+      'cache',
+      'idMappings',
+      'idempotencyRecords',
+      'logs',
+      'outbox',
+      'serverAttachments',
+      'serverChangeLog',
+      'sessionNotes',
+      'syncConflicts',
+      'syncMeta',
+    ]);
+  });
+
+  it('should upgrade a v1 database without losing queued work', async () => {
+    await createV1Database();
+
+    db = await openLatest();
+
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    expect(await db.getAll('outbox')).toEqual([
+      { id: 1, url: '/api/session-notes', method: 'POST', payload: {}, timestamp: 1, order: 1 },
+    ]);
+    expect(await db.getAllFromIndex('outbox', 'by-order')).toHaveLength(1);
+    expect((await db.getAll('syncConflicts')).length).toBe(1);
+    expect(Array.from(db.transaction('cache').store.indexNames)).toEqual([
+      'by-scope',
+      'by-timestamp',
+    ]);
+  });
+
+  it('should upgrade a v2 database and backfill session note versions', async () => {
+    await createV2Database();
+
+    db = await openLatest();
+
+    expect(await db.getAll('sessionNotes')).toEqual([
+      {
+        id: '1',
+        clientName: 'Ann',
+        note: 'First visit',
+        timestamp: 10,
+        shiftDate: '2026-01-05',
+        version: 1,
+        updatedAt: 10,
+      },
+    ]);
+    expect(await db.getAllFromIndex('sessionNotes', 'by-shiftDate', '2026-01-05')).toHaveLength(1);
+    expect((await db.getAll('outbox')).length).toBe(1);
+  });
+
+  it('should move records between stores', async () => {
+    await createV2Database();
+    const migrations: DbMigration[] = [
+      ...getPendingMigrations(0).filter((migration) => migration.version <= 2),
+      {
+        version: 3,
+        description: 'Archive conflicts',
+        async migrate(upgradeDb, transaction) {
+          upgradeDb.createObjectStore('archive', { keyPath: 'id' });
+          await moveRecords(transaction, 'syncConflicts', 'archive', (record) => ({
+            ...record,
+            archived: true,
+          }));
+        },
+      },
+    ];
+
+    db = await openLatest(migrations);
+
+    expect(await db.getAll('syncConflicts')).toEqual([]);
+    expect(await db.getAll('archive')).toEqual([
+      { id: 1, url: '/api/x', method: 'PUT', timestamp: 2, error: 'HTTP 400', archived: true },
+    ]);
+  });
+
+  it('should roll back and keep the old data when a step fails', async () => {
+    await createV2Database();
+    const migrations: DbMigration[] = [
+      ...DB_MIGRATIONS.slice(0, 3),
+      {
+        version: 4,
+        description: 'Broken step',
+        migrate() {
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    await expect(openLatest(migrations)).rejects.toBeTruthy();
+
+    db = await openDB(DB_NAME);
+    expect(db.version).toBe(2);
+    expect((await db.getAll('sessionNotes')).length).toBe(1);
+    expect((await db.getAll('outbox')).length).toBe(1);
+  });
+});
@@ -0,0 +1,300 @@
+import { IDBPDatabase, IDBPTransaction } from 'idb';
+import { isSealedRecord } from './crypto.utils';
+import { describeError } from './log.utils';
+import { LoggerService } from '../services/logger.service';
+
+// Migrations see the database as it was at their version, so they work
+// against an untyped schema rather than the current OfflineFirstDB.
+export type UpgradeDatabase = IDBPDatabase<unknown>;
+export type UpgradeTransaction = IDBPTransaction<unknown, string[], 'versionchange'>;
+
+export interface DbMigration {
+  version: number;
+  description: string;
+  migrate(db: UpgradeDatabase, transaction: UpgradeTransaction): void | Promise<void>;
+}
+
+interface StoreDefinition {
+  keyPath: string;
+  autoIncrement?: boolean;
+  indexes?: Record<string, string>;
+}
+
+// Append new steps at the end with the next version number; never edit a released step.
+export const DB_MIGRATIONS: DbMigration[] = [
+  {
+    version: 1,
+    description: 'Create outbox, sync conflict and cache stores',
+    migrate(db) {
+      createStore(db, 'outbox', {
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: { 'by-timestamp': 'timestamp' },
+      });
+      createStore(db, 'syncConflicts', {
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: { 'by-timestamp': 'timestamp' },
+      });
+      createStore(db, 'cache', { keyPath: 'key', indexes: { 'by-timestamp': 'timestamp' } });
+    },
+  },
+  {
+    version: 2,
+    description: 'Add session notes',
+    migrate(db) {
+      createStore(db, 'sessionNotes', { keyPath: 'id', indexes: { 'by-timestamp': 'timestamp' } });
+    },
+  },
+  {
+    version: 3,
+    description: 'Index session notes by shift date',
+    migrate(db, transaction) {
+      createIndex(transaction, 'sessionNotes', 'by-shiftDate', 'shiftDate');
+    },
+  },
+  {
+    version: 4,
+    description: 'Add temp id to server id mappings',
+    migrate(db) {
+      createStore(db, 'idMappings', {
+        keyPath: 'tempId',
+        indexes: { 'by-serverId': 'serverId' },
+      });
+    },
+  },
+  {
+    version: 5,
+    description: 'Key cache entries by user scope, query params and vary headers',
+    migrate(db) {
+      // Older entries are keyed by raw URL with no owner and cannot be re-keyed,
+      // so they are dropped.
+      if (db.objectStoreNames.contains('cache')) {
+        db.deleteObjectStore('cache');
+      }
+      createStore(db, 'cache', {
+        keyPath: 'key',
+        indexes: { 'by-timestamp': 'timestamp', 'by-scope': 'scope', 'by-url': 'url' },
+      });
+    },
+  },
+  {
+    version: 6,
+    description: 'Add sync metadata and the mock server change log',
+    migrate(db) {
+      createStore(db, 'syncMeta', { keyPath: 'key' });
+      createStore(db, 'serverChangeLog', {
+        keyPath: 'seq',
+        autoIncrement: true,
+        indexes: { 'by-noteId': 'id' },
+      });
+    },
+  },
+  {
+    version: 7,
+    description: 'Add idempotency records for the mock API',
+    migrate(db) {
+      createStore(db, 'idempotencyRecords', {
+        keyPath: 'key',
+        indexes: { 'by-timestamp': 'timestamp' },
+      });
+    },
+  },
+  {
+    version: 8,
+    description: 'Backfill version and updatedAt on session notes',
+    async migrate(db, transaction) {
+      // Sealed notes were written by code that already sets both fields.
+      await transformRecords(transaction, 'sessionNotes', function (note) {
+        if (isSealedRecord(note) || note.version !== undefined) {
+          return note;
+        }
+        return { ...note, version: 1, updatedAt: note.updatedAt || note.timestamp };
+      });
+    },
+  },
+  {
+    version: 9,
+    description: 'Reset the mock server change log for multi-entity feeds',
+    async migrate(db, transaction) {
+      // Older entries have no `store` field and may be sealed, so they cannot be
+      // rewritten here. An empty log sends clients back to a full snapshot.
+      await transaction.objectStore('serverChangeLog').clear();
+    },
+  },
+  {
+    version: 10,
+    description: 'Add attachment stores',
+    migrate(db) {
+      createStore(db, 'attachments', {
+        keyPath: 'id',
+        indexes: { 'by-timestamp': 'timestamp', 'by-status': 'status' },
+      });
+      createStore(db, 'attachmentData', { keyPath: 'id' });
+      createStore(db, 'serverAttachments', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 11,
+    description: 'Order outbox items independently of when they were queued',
+    async migrate(db, transaction) {
+      createIndex(transaction, 'outbox', 'by-order', 'order');
+      // `timestamp` is readable on sealed items too, so every item can be backfilled.
+      await transformRecords(transaction, 'outbox', function (item) {
+        return item.order === undefined ? { ...item, order: item.timestamp } : item;
+      });
+    },
+  },
+  {
+    version: 12,
+    description: 'Add the diagnostic log ring buffer',
+    migrate(db) {
+      createStore(db, 'logs', { keyPath: 'id', autoIncrement: true });
+    },
+  },
+  {
+    version: 13,
+    description: 'Drop the cache URL index',
+    migrate(db, transaction) {
+      // Cache URLs are sealed, so the index only ever held unencrypted entries.
+      deleteIndex(transaction, 'cache', 'by-url');
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version;
+
+export function getPendingMigrations(
+  oldVersion: number,
+  migrations: DbMigration[] = DB_MIGRATIONS
+): DbMigration[] {
+  return migrations
+    .filter(function (migration) {
+      return migration.version > oldVersion;
+    })
+    .sort(function (a, b) {
+      return a.version - b.version;
+    });
+}
+
+// Runs inside the versionchange transaction. Only IndexedDB requests may be
+// awaited here; anything else lets the transaction commit half-way.
+export async function runMigrations(
+  db: UpgradeDatabase,
+  oldVersion: number,
+  transaction: UpgradeTransaction,
+  logger: LoggerService,
+  migrations: DbMigration[] = DB_MIGRATIONS
+): Promise<void> {
+  for (const migration of getPendingMigrations(oldVersion, migrations)) {
+    logger.info('DB', 'Migrating', {
+      version: migration.version,
+      description: migration.description,
+    });
+    await migration.migrate(db, transaction);
+  }
+}
+
+// Aborting rolls every step back, so a failed upgrade leaves the old schema and data intact.
+export function upgradeDatabase(
+  db: UpgradeDatabase,
+  oldVersion: number,
+  transaction: UpgradeTransaction,
+  logger: LoggerService,
+  migrations: DbMigration[] = DB_MIGRATIONS
+): void {
+  runMigrations(db, oldVersion, transaction, logger, migrations).catch(function (error) {
+    logger.error('DB', 'Migration failed, rolling back', { error: describeError(error) });
+    // openDB rejects with the abort; the transaction's own promise needs no handling.
+    transaction.done.catch(function () {});
+    transaction.abort();
+  });
+}
+
+export function createStore(db: UpgradeDatabase, name: string, definition: StoreDefinition): void {
+  if (db.objectStoreNames.contains(name)) {
+    return;
+  }
+
+  const store = db.createObjectStore(name, {
+    keyPath: definition.keyPath,
+    autoIncrement: definition.autoIncrement,
+  });
+  const indexes = definition.indexes || {};
+  Object.keys(indexes).forEach(function (indexName) {
+    store.createIndex(indexName, indexes[indexName]);
+  });
+}
+
+export function createIndex(
+  transaction: UpgradeTransaction,
+  storeName: string,
+  indexName: string,
+  keyPath: string
+): void {
+  const store = transaction.objectStore(storeName);
+  if (!store.indexNames.contains(indexName)) {
+    store.createIndex(indexName, keyPath);
+  }
+}
+
+export function deleteIndex(
+  transaction: UpgradeTransaction,
+  storeName: string,
+  indexName: string
+): void {
+  const store = transaction.objectStore(storeName);
+  if (store.indexNames.contains(indexName)) {
+    store.deleteIndex(indexName);
+  }
+}
+
+// Rewrites each record in place; returning null deletes it.
+export async function transformRecords(
+  transaction: UpgradeTransaction,
+  storeName: string,
+  transform: (record: any) => any | null
+): Promise<number> {
+  let cursor = await transaction.objectStore(storeName).openCursor();
+  let changed = 0;
+
+  while (cursor) {
+    const next = transform(cursor.value);
+    if (next === null) {
+      await cursor.delete();
+      changed++;
+    } else if (next !== cursor.value) {
+      await cursor.update(next);
+      changed++;
+    }
+    cursor = await cursor.continue();
+  }
+
+  return changed;
+}
+
+// Copies every record into another store and empties the source; returning null skips a record.
+export async function moveRecords(
+  transaction: UpgradeTransaction,
+  fromStore: string,
+  toStore: string,
+  transform: (record: any) => any | null = function (record) {
+    return record;
+  }
+): Promise<number> {
+  const target = transaction.objectStore(toStore);
+  let cursor = await transaction.objectStore(fromStore).openCursor();
+  let moved = 0;
+
+  while (cursor) {
+    const next = transform(cursor.value);
+    if (next !== null) {
+      await target.put(next);
+      moved++;
+    }
+    await cursor.delete();
+    cursor = await cursor.continue();
+  }
+
+  return moved;
+}
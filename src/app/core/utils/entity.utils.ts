@@ -0,0 +1,68 @@
+import { EntityDefinition } from '../models';
+import { getTodayDateString } from './date.utils';
+
+export const SESSION_NOTES_ENTITY: EntityDefinition<'sessionNotes'> = {
+  name: 'session-notes',
+  storeName: 'sessionNotes',
+  keyPath: 'id',
+  indexes: { 'by-timestamp': 'timestamp', 'by-shiftDate': 'shiftDate' },
+  basePath: '/api/session-notes',
+  query: {
+    filterFields: ['clientName'],
+    rangeField: 'shiftDate',
+    searchFields: ['note'],
+  },
+  mergeableFields: ['clientName', 'note', 'shiftDate'],
+  createDefaults: function () {
+    return { shiftDate: getTodayDateString() };
+  },
+};
+
+// IndexedDbService derives its entity stores, their schema and their cleartext fields
+// from this list, and the mock API serves each base path. Adding an entity also needs:
+// - a migration step in db-migrations.utils.ts creating its store and indexes,
+// - an OfflineRepository subclass added to the OFFLINE_REPOSITORIES factory,
+// - cache policies for its reads in DEFAULT_CACHE_POLICIES (see createEntityCachePolicies).
+export const ENTITY_DEFINITIONS = [SESSION_NOTES_ENTITY];
+
+export type EntityStoreName = (typeof ENTITY_DEFINITIONS)[number]['storeName'];
+
+export function getChangesPath(entity: EntityDefinition): string {
+  return entity.basePath + '/changes';
+}
+
+export function getCursorKey(entity: EntityDefinition): string {
+  return entity.name + '-cursor';
+}
+
+export function getRecordUrl(entity: EntityDefinition, id: string): string {
+  return entity.basePath + '/' + id;
+}
+
+// Key and index fields have to stay readable when the rest of the record is encrypted.
+export function getCleartextFields(entity: EntityDefinition): string[] {
+  const fields = [entity.keyPath, 'timestamp'];
+  Object.values(entity.indexes).forEach(function (keyPath) {
+    if (!fields.includes(keyPath)) {
+      fields.push(keyPath);
+    }
+  });
+  return fields;
+}
+
+export function findEntityForUrl(
+  url: string,
+  entities: EntityDefinition[] = ENTITY_DEFINITIONS
+): EntityDefinition | null {
+  const path = url.split('?')[0];
+  const entity = entities.find(function (candidate) {
+    return path === candidate.basePath || path.startsWith(candidate.basePath + '/');
+  });
+  return entity || null;
+}
+
+export function sortByNewest<T extends { timestamp: number }>(records: T[]): T[] {
+  return records.sort(function (a, b) {
+    return b.timestamp - a.timestamp;
+  });
+}
@@ -1,7 +1,10 @@
+import { isValidId } from './validation.utils';
+
 export const HTTP_METHODS = {
   GET: 'GET',
   POST: 'POST',
   PUT: 'PUT',
+  PATCH: 'PATCH',
   DELETE: 'DELETE'
 } as const;
 
@@ -10,13 +13,38 @@ export const HTTP_STATUS = {
   CREATED: 201,
   BAD_REQUEST: 400,
   NOT_FOUND: 404,
+  CONFLICT: 409,
+  PRECONDITION_FAILED: 412,
+  REQUEST_TIMEOUT: 408,
+  TOO_MANY_REQUESTS: 429,
   SERVICE_UNAVAILABLE: 503
 } as const;
 
-export const MUTATION_METHODS = [HTTP_METHODS.POST, HTTP_METHODS.PUT, HTTP_METHODS.DELETE] as const;
+// Lets the server recognise a replayed mutation it has already applied.
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const MUTATION_METHODS: readonly string[] = [
+  HTTP_METHODS.POST,
+  HTTP_METHODS.PUT,
+  HTTP_METHODS.PATCH,
+  HTTP_METHODS.DELETE
+];
+
+// Carried in dedicated OutboxItem fields and refreshed on requeue, so never
+// captured with the other headers.
+export const OUTBOX_MANAGED_HEADERS = ['If-Match', IDEMPOTENCY_KEY_HEADER];
 
 export function isMutationMethod(method: string): boolean {
-  return method === HTTP_METHODS.POST || method === HTTP_METHODS.PUT || method === HTTP_METHODS.DELETE;
+  return MUTATION_METHODS.includes(method);
+}
+
+// PUT and PATCH both update fields of an existing resource.
+export function isUpdateMethod(method: string): boolean {
+  return method === HTTP_METHODS.PUT || method === HTTP_METHODS.PATCH;
+}
+
+export function mightHaveBody(method: string): boolean {
+  return method === HTTP_METHODS.POST || isUpdateMethod(method);
 }
 
 export function isGetMethod(method: string): boolean {
@@ -27,3 +55,24 @@ export function isClientError(status: number): boolean {
   return status >= 400 && status < 500;
 }
 
+export function isNetworkError(error: any): boolean {
+  return !!error && (error.status === 0 || error.name === 'TimeoutError');
+}
+
+export function isRetryableClientError(status: number): boolean {
+  return status === HTTP_STATUS.REQUEST_TIMEOUT || status === HTTP_STATUS.TOO_MANY_REQUESTS;
+}
+
+
+export function createEtag(version: number | undefined): string {
+  return `"${version || 1}"`;
+}
+
+export function isVersionConflict(status: number): boolean {
+  return status === HTTP_STATUS.CONFLICT || status === HTTP_STATUS.PRECONDITION_FAILED;
+}
+
+export function extractIdFromUrl(url: string): string | null {
+  const id = url.split('/').pop();
+  return id && isValidId(id) ? id : null;
+}
@@ -0,0 +1,69 @@
+import {
+  TEMP_ID_PREFIX,
+  findTempIdInUrl,
+  findTempIdsInValue,
+  generateTempId,
+  isTempId,
+  replaceIdInUrl,
+  replaceIdInValue,
+} from './id.utils';
+
+describe('temp ids', () => {
+  it('should generate unique ids that are recognised as temp ids', () => {
+    const first = generateTempId();
+    const second = generateTempId();
+
+    expect(first.startsWith(TEMP_ID_PREFIX)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(isTempId(first)).toBe(true);
+    expect(isTempId('42')).toBe(false);
+    expect(isTempId(42)).toBe(false);
+  });
+
+  it('should find a temp id in a URL path segment', () => {
+    expect(findTempIdInUrl('/api/session-notes/tmp-a1')).toBe('tmp-a1');
+    expect(findTempIdInUrl('/api/session-notes/42')).toBeNull();
+  });
+});
+
+describe('replaceIdInUrl', () => {
+  it('should replace whole path segments only', () => {
+    expect(replaceIdInUrl('/api/session-notes/tmp-1', 'tmp-1', '42')).toBe(
+      '/api/session-notes/42'
+    );
+    expect(replaceIdInUrl('/api/session-notes/tmp-10', 'tmp-1', '42')).toBe(
+      '/api/session-notes/tmp-10'
+    );
+  });
+});
+
+describe('replaceIdInValue', () => {
+  it('should rewrite foreign keys however deeply they are nested', () => {
+    const body = {
+      id: 'tmp-1',
+      note: 'mentions tmp-1',
+      attachments: [{ id: 'tmp-1', name: 'scan.pdf' }, { id: 'tmp-2' }],
+    };
+
+    expect(replaceIdInValue(body, 'tmp-1', '42')).toEqual({
+      id: '42',
+      note: 'mentions tmp-1',
+      attachments: [{ id: '42', name: 'scan.pdf' }, { id: 'tmp-2' }],
+    });
+    // The original is left as it was.
+    expect(body.id).toBe('tmp-1');
+  });
+});
+
+describe('findTempIdsInValue', () => {
+  it('should collect temp ids from plain objects and arrays', () => {
+    const body = { id: '1', attachments: [{ id: 'tmp-a' }, { id: 'tmp-b' }], owner: 'tmp-c' };
+
+    expect(findTempIdsInValue(body)).toEqual(['tmp-a', 'tmp-b', 'tmp-c']);
+  });
+
+  it('should not look inside non-plain objects such as dates', () => {
+    expect(findTempIdsInValue({ at: new Date(0) })).toEqual([]);
+    expect(findTempIdsInValue(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+
+export const TEMP_ID_PREFIX = 'tmp-';
+
+export function generateTempId(): string {
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${TEMP_ID_PREFIX}${Date.now().toString(36)}-${random}`;
+}
+
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const random = Math.random().toString(36).slice(2, 12);
+  return `${Date.now().toString(36)}-${random}`;
+}
+
+export function isTempId(id: any): id is string {
+  return typeof id === 'string' && id.startsWith(TEMP_ID_PREFIX);
+}
+
+export function findTempIdInUrl(url: string): string | null {
+  const segment = url.split('/').find(isTempId);
+  return segment || null;
+}
+
+export function replaceIdInUrl(url: string, fromId: string, toId: string): string {
+  return url
+    .split('/')
+    .map(function (segment) {
+      return segment === fromId ? toId : segment;
+    })
+    .join('/');
+}
+
+export function replaceIdInValue(value: any, fromId: string, toId: string): any {
+  if (value === fromId) {
+    return toId;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(function (entry) {
+      return replaceIdInValue(entry, fromId, toId);
+    });
+  }
+
+  if (value && typeof value === 'object') {
+    const result: any = {};
+    Object.keys(value).forEach(function (key) {
+      result[key] = replaceIdInValue(value[key], fromId, toId);
+    });
+    return result;
+  }
+
+  return value;
+}
+
+// Every temp id inside a request body, however deeply nested.
+export function findTempIdsInValue(value: any): string[] {
+  if (isTempId(value)) {
+    return [value];
+  }
+
+  if (Array.isArray(value)) {
+    return value.reduce(function (ids: string[], entry) {
+      return ids.concat(findTempIdsInValue(entry));
+    }, []);
+  }
+
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.keys(value).reduce(function (ids: string[], key) {
+      return ids.concat(findTempIdsInValue(value[key]));
+    }, []);
+  }
+
+  return [];
+}
@@ -0,0 +1,81 @@
+import { LogEntry, LogEvent, LogLevel } from '../models';
+import {
+  computeLogMetrics,
+  createLogExport,
+  describeError,
+  describeLogMetrics,
+  formatLogEntry,
+  isLevelEnabled,
+} from './log.utils';
+
+function entry(event: LogEvent, data?: Record<string, any>, level: LogLevel = 'info'): LogEntry {
+  return { level, source: 'SYNC', event, message: event, data, timestamp: 1 };
+}
+
+describe('computeLogMetrics', () => {
+  it('should derive queue latency and cache hit ratio from events', () => {
+    const metrics = computeLogMetrics([
+      entry('cache-hit'),
+      entry('cache-hit'),
+      entry('cache-hit'),
+      entry('cache-miss'),
+      entry('item-success', { latencyMs: 1000 }),
+      entry('item-success', { latencyMs: 3000 }),
+      entry('conflict', {}, 'warn'),
+      entry('sync-complete', { durationMs: 500 }),
+      entry('message', {}, 'error'),
+    ]);
+
+    expect(metrics).toEqual({
+      syncRuns: 1,
+      averageSyncMs: 500,
+      itemsSynced: 2,
+      averageQueueLatencyMs: 2000,
+      maxQueueLatencyMs: 3000,
+      retries: 0,
+      conflicts: 1,
+      cacheHits: 3,
+      cacheMisses: 1,
+      cacheHitRatio: 0.75,
+      errors: 1,
+    });
+    expect(describeLogMetrics(metrics)).toBe(
+      'Cache hits 75% · Queue latency 2s avg · 1 conflict · 1 error'
+    );
+  });
+
+  it('should leave ratios empty when nothing was measured', () => {
+    const metrics = computeLogMetrics([]);
+
+    expect(metrics.cacheHitRatio).toBeNull();
+    expect(metrics.averageQueueLatencyMs).toBeNull();
+    expect(describeLogMetrics(metrics)).toBe('No activity logged yet');
+  });
+});
+
+describe('createLogExport', () => {
+  it('should include the entries and their metrics', () => {
+    const exported = createLogExport([entry('cache-miss')], 0);
+
+    expect(exported.exportedAt).toBe('1970-01-01T00:00:00.000Z');
+    expect(exported.count).toBe(1);
+    expect(exported.metrics.cacheMisses).toBe(1);
+  });
+});
+
+describe('log formatting', () => {
+  it('should prefix entries with an icon and their source', () => {
+    expect(formatLogEntry(entry('sync-start'))).toBe('🚀 [SYNC] sync-start');
+    expect(formatLogEntry(entry('message', undefined, 'error'))).toBe('❌ [SYNC] message');
+  });
+
+  it('should compare levels by severity', () => {
+    expect(isLevelEnabled('warn', 'info')).toBe(true);
+    expect(isLevelEnabled('debug', 'info')).toBe(false);
+  });
+
+  it('should describe errors without a message by their status', () => {
+    expect(describeError(new Error('boom'))).toBe('boom');
+    expect(describeError({ status: 503 })).toBe('HTTP 503');
+  });
+});
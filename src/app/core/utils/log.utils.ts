@@ -0,0 +1,140 @@
+import { LogEntry, LogEvent, LogLevel } from '../models';
+import { formatDuration } from './date.utils';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+const EVENT_ICONS: Record<LogEvent, string | null> = {
+  enqueue: '📥',
+  'sync-start': '🚀',
+  'sync-complete': '✅',
+  'item-success': '✅',
+  'item-retry': '🔁',
+  conflict: '⚠️',
+  'cache-hit': '💾',
+  'cache-miss': '🔍',
+  message: null,
+};
+
+const LEVEL_ICONS: Record<LogLevel, string> = {
+  debug: '🔹',
+  info: '🔵',
+  warn: '⚠️',
+  error: '❌',
+};
+
+// For example "🚀 [SYNC] Starting sync".
+export function formatLogEntry(entry: LogEntry): string {
+  const icon = EVENT_ICONS[entry.event] || LEVEL_ICONS[entry.level];
+  return `${icon} [${entry.source}] ${entry.message}`;
+}
+
+// Errors become plain strings so entries stay serializable.
+export function describeError(error: any): string {
+  if (!error) {
+    return 'Unknown error';
+  }
+  return error.message || (error.status ? `HTTP ${error.status}` : String(error));
+}
+
+export interface LogMetrics {
+  syncRuns: number;
+  averageSyncMs: number | null;
+  itemsSynced: number;
+  // Time from a change being queued to the server accepting it.
+  averageQueueLatencyMs: number | null;
+  maxQueueLatencyMs: number | null;
+  retries: number;
+  conflicts: number;
+  cacheHits: number;
+  cacheMisses: number;
+  cacheHitRatio: number | null;
+  errors: number;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const total = values.reduce(function (sum, value) {
+    return sum + value;
+  }, 0);
+  return Math.round(total / values.length);
+}
+
+function collectNumbers(entries: LogEntry[], event: LogEvent, field: string): number[] {
+  return entries
+    .filter(function (entry) {
+      return entry.event === event && !!entry.data && typeof entry.data[field] === 'number';
+    })
+    .map(function (entry) {
+      return entry.data![field] as number;
+    });
+}
+
+function countEvents(entries: LogEntry[], event: LogEvent): number {
+  return entries.filter(function (entry) {
+    return entry.event === event;
+  }).length;
+}
+
+// Computed from the ring buffer, so the figures cover whatever it still holds.
+export function computeLogMetrics(entries: LogEntry[]): LogMetrics {
+  const latencies = collectNumbers(entries, 'item-success', 'latencyMs');
+  const cacheHits = countEvents(entries, 'cache-hit');
+  const cacheMisses = countEvents(entries, 'cache-miss');
+  const cacheLookups = cacheHits + cacheMisses;
+
+  return {
+    syncRuns: countEvents(entries, 'sync-complete'),
+    averageSyncMs: average(collectNumbers(entries, 'sync-complete', 'durationMs')),
+    itemsSynced: countEvents(entries, 'item-success'),
+    averageQueueLatencyMs: average(latencies),
+    maxQueueLatencyMs: latencies.length > 0 ? Math.max(...latencies) : null,
+    retries: countEvents(entries, 'item-retry'),
+    conflicts: countEvents(entries, 'conflict'),
+    cacheHits,
+    cacheMisses,
+    cacheHitRatio: cacheLookups > 0 ? cacheHits / cacheLookups : null,
+    errors: entries.filter(function (entry) {
+      return entry.level === 'error';
+    }).length,
+  };
+}
+
+// For example "Cache hits 80% · Queue latency 12s avg · 1 conflict".
+export function describeLogMetrics(metrics: LogMetrics): string {
+  const parts: string[] = [];
+  if (metrics.cacheHitRatio !== null) {
+    parts.push(`Cache hits ${Math.round(metrics.cacheHitRatio * 100)}%`);
+  }
+  if (metrics.averageQueueLatencyMs !== null) {
+    parts.push(`Queue latency ${formatDuration(metrics.averageQueueLatencyMs)} avg`);
+  }
+  if (metrics.conflicts > 0) {
+    parts.push(`${metrics.conflicts} conflict${metrics.conflicts === 1 ? '' : 's'}`);
+  }
+  if (metrics.errors > 0) {
+    parts.push(`${metrics.errors} error${metrics.errors === 1 ? '' : 's'}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'No activity logged yet';
+}
+
+export interface LogExport {
+  exportedAt: string;
+  count: number;
+  metrics: LogMetrics;
+  entries: LogEntry[];
+}
+
+export function createLogExport(entries: LogEntry[], exportedAt: number): LogExport {
+  return {
+    exportedAt: new Date(exportedAt).toISOString(),
+    count: entries.length,
+    metrics: computeLogMetrics(entries),
+    entries,
+  };
+}
@@ -0,0 +1,87 @@
+import { HttpHeaders, HttpParams, HttpRequest } from '@angular/common/http';
+import { OutboxItem } from '../models';
+import { buildOutboxRequest, serializeRequest } from './outbox-request.utils';
+
+const URL = '/api/session-notes/1';
+
+async function roundTrip(req: HttpRequest<any>): Promise<HttpRequest<any>> {
+  // Outbox records go through JSON when sealed, so the capture must survive it.
+  const serialized = JSON.parse(JSON.stringify(await serializeRequest(req)));
+  const item: OutboxItem = { ...serialized, url: req.url, method: req.method, timestamp: 1 };
+  return buildOutboxRequest(item);
+}
+
+function readText(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+describe('serializeRequest', () => {
+  it('should replay headers, params and response type but not managed headers', async () => {
+    const req = new HttpRequest('PATCH', URL, { note: 'x' }, {
+      headers: new HttpHeaders({
+        Authorization: 'Bearer abc',
+        'If-Match': '"1"',
+        'Idempotency-Key': 'k1',
+      }),
+      params: new HttpParams().append('tag', 'a').append('tag', 'b'),
+      responseType: 'text',
+    });
+
+    const replayed = await roundTrip(req);
+
+    expect(replayed.method).toBe('PATCH');
+    expect(replayed.body).toEqual({ note: 'x' });
+    expect(replayed.headers.get('Authorization')).toBe('Bearer abc');
+    expect(replayed.headers.has('If-Match')).toBe(false);
+    expect(replayed.headers.has('Idempotency-Key')).toBe(false);
+    expect(replayed.params.getAll('tag')).toEqual(['a', 'b']);
+    expect(replayed.responseType).toBe('text');
+  });
+
+  it('should replay form data with file parts', async () => {
+    const form = new FormData();
+    form.append('caption', 'Wound photo');
+    form.append('file', new File(['abc'], 'photo.png', { type: 'image/png' }));
+
+    const replayed = await roundTrip(new HttpRequest('POST', URL, form));
+    const file = replayed.body.get('file') as File;
+
+    expect(replayed.body).toBeInstanceOf(FormData);
+    expect(replayed.body.get('caption')).toBe('Wound photo');
+    expect(file.name).toBe('photo.png');
+    expect(file.type).toBe('image/png');
+    expect(await readText(file)).toBe('abc');
+  });
+
+  it('should replay binary and text bodies', async () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    const binary = await roundTrip(new HttpRequest('PUT', URL, bytes.buffer));
+    const text = await roundTrip(new HttpRequest('POST', URL, 'plain'));
+
+    expect(Array.from(new Uint8Array(binary.body))).toEqual([1, 2, 3]);
+    expect(text.body).toBe('plain');
+  });
+});
+
+describe('buildOutboxRequest', () => {
+  it('should send items queued before request capture as JSON', () => {
+    const legacy: OutboxItem = {
+      url: URL,
+      method: 'DELETE',
+      payload: {},
+      timestamp: 1,
+      ifMatch: '"2"',
+    };
+
+    const req = buildOutboxRequest(legacy);
+
+    expect(req.body).toBeNull();
+    expect(req.headers.get('If-Match')).toBe('"2"');
+    expect(req.responseType).toBe('json');
+  });
+});
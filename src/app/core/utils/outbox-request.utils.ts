@@ -0,0 +1,201 @@
+import { HttpContext, HttpHeaders, HttpParams, HttpRequest } from '@angular/common/http';
+import { OutboxBodyType, OutboxItem, OutboxRequestOptions } from '../models';
+import { IDEMPOTENCY_KEY_HEADER, OUTBOX_MANAGED_HEADERS, mightHaveBody } from './http.utils';
+import { fromBase64, toBase64 } from './crypto.utils';
+
+// Binary parts are kept as base64 so the payload survives JSON encryption.
+export interface SerializedBlob {
+  base64: string;
+  type: string;
+  name?: string;
+}
+
+export interface SerializedRequest extends OutboxRequestOptions {
+  payload: any;
+}
+
+export type SerializedFormEntry = [string, string | SerializedBlob];
+
+export function getBodyType(body: any): OutboxBodyType {
+  if (body === null || body === undefined) {
+    return 'none';
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return 'form-data';
+  }
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    return 'url-search-params';
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return 'blob';
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return 'arraybuffer';
+  }
+  if (typeof body === 'string') {
+    return 'text';
+  }
+  return 'json';
+}
+
+export async function serializeBody(body: any, bodyType: OutboxBodyType): Promise<any> {
+  switch (bodyType) {
+    case 'form-data':
+      return serializeFormData(body);
+    case 'url-search-params':
+      return body.toString();
+    case 'blob':
+      return serializeBlob(body);
+    case 'arraybuffer':
+      return toBase64(
+        ArrayBuffer.isView(body)
+          ? new Uint8Array(body.buffer, body.byteOffset, body.byteLength)
+          : body
+      );
+    case 'none':
+      return null;
+    default:
+      return body;
+  }
+}
+
+export function deserializeBody(payload: any, bodyType: OutboxBodyType | undefined): any {
+  switch (bodyType) {
+    case 'form-data':
+      return deserializeFormData(payload);
+    case 'url-search-params':
+      return new URLSearchParams(payload);
+    case 'blob':
+      return deserializeBlob(payload);
+    case 'arraybuffer':
+      return fromBase64(payload).buffer;
+    case 'none':
+      return null;
+    default:
+      return payload;
+  }
+}
+
+// FileReader rather than Blob.arrayBuffer(), which older WebViews lack.
+export function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise(function (resolve, reject) {
+    const reader = new FileReader();
+    reader.onload = function () {
+      resolve(reader.result as ArrayBuffer);
+    };
+    reader.onerror = function () {
+      reject(reader.error);
+    };
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function serializeBlob(blob: Blob): Promise<SerializedBlob> {
+  const serialized: SerializedBlob = {
+    base64: toBase64(await readBlob(blob)),
+    type: blob.type,
+  };
+  if (typeof File !== 'undefined' && blob instanceof File) {
+    serialized.name = blob.name;
+  }
+  return serialized;
+}
+
+function deserializeBlob(serialized: SerializedBlob): Blob {
+  const bytes = fromBase64(serialized.base64);
+  if (serialized.name !== undefined) {
+    return new File([bytes], serialized.name, { type: serialized.type });
+  }
+  return new Blob([bytes], { type: serialized.type });
+}
+
+async function serializeFormData(form: FormData): Promise<SerializedFormEntry[]> {
+  const entries: SerializedFormEntry[] = [];
+  for (const [name, value] of Array.from(form.entries())) {
+    entries.push([name, typeof value === 'string' ? value : await serializeBlob(value)]);
+  }
+  return entries;
+}
+
+function deserializeFormData(entries: SerializedFormEntry[]): FormData {
+  const form = new FormData();
+  entries.forEach(function ([name, value]) {
+    if (typeof value === 'string') {
+      form.append(name, value);
+    } else {
+      const blob = deserializeBlob(value);
+      form.append(name, blob, value.name);
+    }
+  });
+  return form;
+}
+
+function toRecord(
+  source: HttpHeaders | HttpParams,
+  skip: string[] = []
+): Record<string, string[]> {
+  const lowerSkip = skip.map(function (name) {
+    return name.toLowerCase();
+  });
+  const record: Record<string, string[]> = {};
+  source.keys().forEach(function (key) {
+    if (!lowerSkip.includes(key.toLowerCase())) {
+      record[key] = source.getAll(key) || [];
+    }
+  });
+  return record;
+}
+
+// Captures everything HttpClient would send, so the replay matches the
+// original request rather than a JSON-only reconstruction of it.
+export async function serializeRequest(req: HttpRequest<any>): Promise<SerializedRequest> {
+  const bodyType = getBodyType(req.body);
+  return {
+    payload: await serializeBody(req.body, bodyType),
+    bodyType,
+    headers: toRecord(req.headers, OUTBOX_MANAGED_HEADERS),
+    params: toRecord(req.params),
+    responseType: req.responseType,
+    withCredentials: req.withCredentials || undefined,
+  };
+}
+
+export function pickRequestOptions(source: OutboxRequestOptions): OutboxRequestOptions {
+  return {
+    headers: source.headers,
+    params: source.params,
+    responseType: source.responseType,
+    bodyType: source.bodyType,
+    withCredentials: source.withCredentials,
+  };
+}
+
+export function buildOutboxRequest(item: OutboxItem, context?: HttpContext): HttpRequest<any> {
+  let headers = new HttpHeaders(item.headers || {});
+  if (item.ifMatch) {
+    headers = headers.set('If-Match', item.ifMatch);
+  }
+  if (item.idempotencyKey) {
+    headers = headers.set(IDEMPOTENCY_KEY_HEADER, item.idempotencyKey);
+  }
+
+  const init = {
+    headers,
+    params: new HttpParams({ fromObject: item.params || {} }),
+    responseType: item.responseType || 'json',
+    withCredentials: !!item.withCredentials,
+    context,
+  };
+
+  // Items queued before request capture hold a bare JSON payload.
+  const bodyType = item.bodyType || (mightHaveBody(item.method) ? 'json' : 'none');
+  if (bodyType === 'none' && !mightHaveBody(item.method)) {
+    return new HttpRequest<any>(item.method as 'DELETE', item.url, init);
+  }
+  return new HttpRequest<any>(
+    item.method,
+    item.url,
+    deserializeBody(item.payload, bodyType),
+    init
+  );
+}
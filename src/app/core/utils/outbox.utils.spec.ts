@@ -0,0 +1,286 @@
+import { OutboxItem } from '../models';
+import {
+  applyPendingMutations,
+  compactOutbox,
+  createOutboxExport,
+  getPayloadPreview,
+  moveOutboxItem,
+  rewriteOutboxItemId,
+  rewriteOutboxItemVersion,
+} from './outbox.utils';
+
+const BASE = '/api/session-notes';
+
+function item(id: number, method: string, url: string, payload: any = {}): OutboxItem {
+  return { id, method, url, payload, timestamp: id };
+}
+
+describe('compactOutbox', () => {
+  it('should leave unrelated items untouched', () => {
+    const items = [
+      item(1, 'PUT', `${BASE}/a`, { note: 'x' }),
+      item(2, 'PUT', `${BASE}/b`, { note: 'y' }),
+      item(3, 'DELETE', `${BASE}/c`),
+    ];
+
+    const result = compactOutbox(items);
+
+    expect(result.items).toEqual(items);
+    expect(result.updatedItems).toEqual([]);
+    expect(result.removedIds).toEqual([]);
+  });
+
+  it('should collapse a POST and later PUTs into a single POST', () => {
+    const result = compactOutbox([
+      item(1, 'POST', BASE, { id: 'tmp-1', clientName: 'Ann', note: 'first' }),
+      item(2, 'PUT', `${BASE}/tmp-1`, { note: 'second' }),
+      item(3, 'PUT', `${BASE}/tmp-1`, { clientName: 'Anne' }),
+    ]);
+
+    expect(result.items.length).toBe(1);
+    expect(result.items[0].id).toBe(1);
+    expect(result.items[0].method).toBe('POST');
+    expect(result.items[0].payload).toEqual({ id: 'tmp-1', clientName: 'Anne', note: 'second' });
+    expect(result.updatedItems).toEqual(result.items);
+    expect(result.removedIds).toEqual([2, 3]);
+  });
+
+  it('should merge consecutive PUTs to the same URL', () => {
+    const result = compactOutbox([
+      item(1, 'PUT', `${BASE}/1`, { note: 'a', shiftDate: '2024-01-01' }),
+      item(2, 'PUT', `${BASE}/2`, { note: 'other' }),
+      item(3, 'PUT', `${BASE}/1`, { note: 'b' }),
+    ]);
+
+    expect(result.items.map((i) => i.id)).toEqual([1, 2]);
+    expect(result.items[0].payload).toEqual({ note: 'b', shiftDate: '2024-01-01' });
+    expect(result.removedIds).toEqual([3]);
+  });
+
+  it('should cancel a POST followed by a DELETE, including PUTs in between', () => {
+    const result = compactOutbox([
+      item(1, 'POST', BASE, { id: 'tmp-1', note: 'a' }),
+      item(2, 'PUT', `${BASE}/tmp-1`, { note: 'b' }),
+      item(3, 'PUT', `${BASE}/tmp-1`, { note: 'c' }),
+      item(4, 'PUT', `${BASE}/tmp-1`, { note: 'd' }),
+      item(5, 'DELETE', `${BASE}/tmp-1`),
+    ]);
+
+    expect(result.items).toEqual([]);
+    expect(result.updatedItems).toEqual([]);
+    expect(result.removedIds.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should fail items that reference a POST cancelled by a DELETE', () => {
+    const followUp = item(3, 'PUT', `${BASE}/3`, { id: '3', followUpOf: 'tmp-1' });
+    const child = item(4, 'POST', BASE, { id: 'tmp-2', followUpOf: 'tmp-1' });
+    const childEdit = item(6, 'PUT', `${BASE}/tmp-2`, { note: 'x' });
+    const unrelated = item(7, 'PUT', `${BASE}/5`, { note: 'y' });
+    const result = compactOutbox([
+      item(1, 'POST', BASE, { id: 'tmp-1', note: 'a' }),
+      { ...followUp, attempts: 1 },
+      child,
+      item(5, 'DELETE', `${BASE}/tmp-1`),
+      { ...childEdit, attempts: 1 },
+      unrelated,
+    ]);
+
+    expect(result.items).toEqual([unrelated]);
+    expect(result.orphanedItems.map((i) => i.id)).toEqual([3, 4, 6]);
+    expect(result.updatedItems).toEqual([]);
+    expect(result.removedIds.sort()).toEqual([1, 5]);
+  });
+
+  it('should keep a DELETE for a resource that was not created offline', () => {
+    const result = compactOutbox([
+      item(1, 'PUT', `${BASE}/1`, { note: 'a' }),
+      item(2, 'DELETE', `${BASE}/1`),
+      item(3, 'PUT', `${BASE}/1`, { note: 'b' }),
+    ]);
+
+    expect(result.items.map((i) => i.id)).toEqual([1, 2, 3]);
+    expect(result.removedIds).toEqual([]);
+  });
+
+  it('should not rewrite items that have already been attempted', () => {
+    const post = { ...item(1, 'POST', BASE, { id: 'tmp-1', note: 'a' }), attempts: 1 };
+    const result = compactOutbox([
+      post,
+      item(2, 'PUT', `${BASE}/tmp-1`, { note: 'b' }),
+      item(3, 'DELETE', `${BASE}/tmp-1`),
+    ]);
+
+    expect(result.items.map((i) => i.id)).toEqual([1, 2, 3]);
+    expect(result.items[0]).toBe(post);
+    expect(result.removedIds).toEqual([]);
+  });
+
+  it('should not match POSTs without an id to later PUTs', () => {
+    const result = compactOutbox([
+      item(1, 'POST', BASE, { note: 'a' }),
+      item(2, 'PUT', `${BASE}/1`, { note: 'b' }),
+    ]);
+
+    expect(result.items.length).toBe(2);
+    expect(result.removedIds).toEqual([]);
+  });
+
+  it('should send a PATCH followed by a PUT as a PUT', () => {
+    const result = compactOutbox([
+      item(1, 'PATCH', `${BASE}/1`, { clientName: 'Ann' }),
+      item(2, 'PUT', `${BASE}/1`, { note: 'a' }),
+    ]);
+
+    expect(result.items).toEqual([item(1, 'PUT', `${BASE}/1`, { clientName: 'Ann', note: 'a' })]);
+    expect(result.removedIds).toEqual([2]);
+  });
+
+  it('should merge PATCHes like PUTs but never non-JSON bodies', () => {
+    const upload = { ...item(3, 'PUT', `${BASE}/1`, 'raw text'), bodyType: 'text' as const };
+    const result = compactOutbox([
+      item(1, 'PUT', `${BASE}/1`, { note: 'a' }),
+      item(2, 'PATCH', `${BASE}/1`, { clientName: 'Ann' }),
+      upload,
+    ]);
+
+    expect(result.items).toEqual([
+      item(1, 'PUT', `${BASE}/1`, { note: 'a', clientName: 'Ann' }),
+      upload,
+    ]);
+    expect(result.removedIds).toEqual([2]);
+  });
+});
+
+describe('rewriteOutboxItemId', () => {
+  it('should rewrite the temp id in the URL and in body foreign keys', () => {
+    const queued = item(1, 'PUT', `${BASE}/tmp-1`, {
+      id: 'tmp-1',
+      note: 'a',
+      attachments: [{ id: 'tmp-2', name: 'scan.pdf' }],
+    });
+
+    const note = rewriteOutboxItemId(queued, 'tmp-1', '42');
+    expect(note.url).toBe(`${BASE}/42`);
+    expect(note.payload).toEqual({
+      id: '42',
+      note: 'a',
+      attachments: [{ id: 'tmp-2', name: 'scan.pdf' }],
+    });
+
+    const attachment = rewriteOutboxItemId(note, 'tmp-2', '7');
+    expect(attachment.payload.attachments).toEqual([{ id: '7', name: 'scan.pdf' }]);
+    expect(attachment.id).toBe(1);
+  });
+
+  it('should leave items that do not reference the temp id unchanged', () => {
+    const queued = item(1, 'PUT', `${BASE}/3`, { id: '3', note: 'a' });
+
+    expect(rewriteOutboxItemId(queued, 'tmp-1', '42')).toEqual(queued);
+  });
+});
+
+describe('rewriteOutboxItemVersion', () => {
+  it('should move the If-Match and body version of a later write to the same record', () => {
+    const queued = {
+      ...item(2, 'PUT', `${BASE}/1`, { note: 'b', version: 3 }),
+      ifMatch: '"3"',
+    };
+
+    expect(rewriteOutboxItemVersion(queued, `${BASE}/1`, 4)).toEqual({
+      ...queued,
+      ifMatch: '"4"',
+      payload: { note: 'b', version: 4 },
+    });
+  });
+
+  it('should leave other records and unconditional writes unchanged', () => {
+    const other = { ...item(2, 'PUT', `${BASE}/2`, { version: 3 }), ifMatch: '"3"' };
+    const unconditional = item(3, 'PATCH', `${BASE}/1`, { note: 'c' });
+
+    expect(rewriteOutboxItemVersion(other, `${BASE}/1`, 4)).toEqual(other);
+    expect(rewriteOutboxItemVersion(unconditional, `${BASE}/1`, 4)).toEqual(unconditional);
+  });
+});
+
+describe('applyPendingMutations', () => {
+  const cached = [
+    { id: '1', note: 'one', timestamp: 1 },
+    { id: '2', note: 'two', timestamp: 2 },
+  ];
+
+  it('should insert POSTed entities marked as pending', () => {
+    const result = applyPendingMutations(BASE, cached, [
+      item(10, 'POST', BASE, { id: 'tmp-1', note: 'new' }),
+    ]);
+
+    expect(result.length).toBe(3);
+    expect(result[0]).toEqual({ id: 'tmp-1', note: 'new', timestamp: 10, pending: true });
+  });
+
+  it('should patch PUT entities and drop DELETEd ones', () => {
+    const result = applyPendingMutations(BASE, cached, [
+      item(10, 'PUT', `${BASE}/1`, { note: 'edited' }),
+      item(11, 'DELETE', `${BASE}/2`),
+    ]);
+
+    expect(result).toEqual([{ id: '1', note: 'edited', timestamp: 1, pending: true }]);
+  });
+
+  it('should ignore mutations for other collections', () => {
+    const result = applyPendingMutations(BASE, cached, [
+      item(10, 'DELETE', '/api/clients/1'),
+      item(11, 'POST', '/api/clients', { id: 'tmp-2' }),
+    ]);
+
+    expect(result).toEqual(cached);
+  });
+});
+
+describe('moveOutboxItem', () => {
+  const items = [
+    item(1, 'POST', BASE, { id: 'tmp-1' }),
+    item(2, 'PUT', `${BASE}/tmp-1`, { note: 'x' }),
+    item(3, 'DELETE', `${BASE}/7`),
+  ];
+
+  it('should swap an item with its neighbour', () => {
+    expect(moveOutboxItem(items, 3, -1)).toEqual([1, 3, 2]);
+  });
+
+  it('should refuse to move past the ends or past a write to the same record', () => {
+    expect(moveOutboxItem(items, 1, -1)).toBeNull();
+    expect(moveOutboxItem(items, 3, 1)).toBeNull();
+    expect(moveOutboxItem(items, 2, -1)).toBeNull();
+  });
+});
+
+describe('getPayloadPreview', () => {
+  it('should truncate JSON and describe binary bodies', () => {
+    const blob = {
+      ...item(1, 'PUT', `${BASE}/1`, { base64: 'AAAA', type: 'image/png' }),
+      bodyType: 'blob' as const,
+    };
+
+    expect(getPayloadPreview(item(1, 'PUT', `${BASE}/1`, { note: 'abcdef' }), 10)).toBe(
+      '{"note":"…'
+    );
+    expect(getPayloadPreview(blob)).toBe('[image/png, 3 bytes]');
+  });
+});
+
+describe('createOutboxExport', () => {
+  it('should redact credential headers', () => {
+    const queued = {
+      ...item(1, 'PUT', `${BASE}/1`),
+      headers: { Authorization: ['Bearer abc'], 'Accept-Language': ['en'] },
+    };
+
+    const exported = createOutboxExport([queued], 0);
+
+    expect(exported.exportedAt).toBe('1970-01-01T00:00:00.000Z');
+    expect(exported.items[0].headers).toEqual({
+      Authorization: ['[redacted]'],
+      'Accept-Language': ['en'],
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { OutboxItem } from '../models';
+import { HTTP_METHODS, createEtag, isUpdateMethod } from './http.utils';
+import { findTempIdsInValue, isTempId, replaceIdInUrl, replaceIdInValue } from './id.utils';
+
+export interface OutboxCompaction {
+  items: OutboxItem[];
+  updatedItems: OutboxItem[];
+  removedIds: number[];
+  // Writes that point at a record created and deleted offline, so they can never be sent.
+  orphanedItems: OutboxItem[];
+}
+
+// A POST only creates an addressable resource when its payload carries the id,
+// so later PUT/DELETE items can be matched against `${url}/${payload.id}`.
+export function getResourceUrl(item: OutboxItem): string | null {
+  if (item.method !== HTTP_METHODS.POST) {
+    return item.url;
+  }
+  const id = item.payload && item.payload.id;
+  return id ? `${item.url}/${id}` : null;
+}
+
+// Items that have already been sent at least once may have reached the server,
+// so they are never rewritten or cancelled.
+function isCompactable(item: OutboxItem): boolean {
+  return !item.attempts;
+}
+
+// Only JSON object payloads can be merged field by field.
+function hasJsonPayload(item: OutboxItem): boolean {
+  return (!item.bodyType || item.bodyType === 'json') && isPlainObject(item.payload);
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function referencesAny(item: OutboxItem, tempIds: Set<string>): boolean {
+  return item.url
+    .split('/')
+    .concat(findTempIdsInValue(item.payload))
+    .some(function (id) {
+      return tempIds.has(id);
+    });
+}
+
+export function compactOutbox(outboxItems: OutboxItem[]): OutboxCompaction {
+  const items: OutboxItem[] = [];
+  const updated = new Set<OutboxItem>();
+  const removedIds: number[] = [];
+  const openItems = new Map<string, OutboxItem>();
+  const cancelledIds = new Set<string>();
+
+  function remove(item: OutboxItem): void {
+    if (item.id !== undefined) {
+      removedIds.push(item.id);
+    }
+  }
+
+  outboxItems.forEach(function (item) {
+    const resourceUrl = getResourceUrl(item);
+    const open = resourceUrl ? openItems.get(resourceUrl) : undefined;
+    const canMerge = !!open && isCompactable(open) && isCompactable(item);
+
+    const canMergeFields = canMerge && hasJsonPayload(open!) && hasJsonPayload(item);
+    if (isUpdateMethod(item.method) && canMergeFields) {
+      // A PUT sends the whole record, so it must not go out as a PATCH.
+      const method =
+        item.method === HTTP_METHODS.PUT && open!.method === HTTP_METHODS.PATCH
+          ? item.method
+          : open!.method;
+      const target = { ...open!, method, payload: { ...open!.payload, ...item.payload } };
+      items[items.indexOf(open!)] = target;
+      updated.delete(open!);
+      updated.add(target);
+      openItems.set(resourceUrl!, target);
+      remove(item);
+      return;
+    }
+
+    if (item.method === HTTP_METHODS.DELETE && canMerge && open!.method === HTTP_METHODS.POST) {
+      items.splice(items.indexOf(open!), 1);
+      updated.delete(open!);
+      openItems.delete(resourceUrl!);
+      cancelledIds.add(open!.payload.id);
+      remove(open!);
+      remove(item);
+      return;
+    }
+
+    items.push(item);
+    if (!resourceUrl) {
+      return;
+    }
+    if (item.method === HTTP_METHODS.DELETE) {
+      openItems.delete(resourceUrl);
+    } else {
+      openItems.set(resourceUrl, item);
+    }
+  });
+
+  // The temp id is never mapped, so whatever references it is failed rather than sent,
+  // along with anything created on top of it.
+  const orphanedItems: OutboxItem[] = [];
+  const remainingItems = items.filter(function (item) {
+    if (!referencesAny(item, cancelledIds)) {
+      return true;
+    }
+    orphanedItems.push(item);
+    updated.delete(item);
+    const id = item.payload && item.payload.id;
+    if (item.method === HTTP_METHODS.POST && isTempId(id)) {
+      cancelledIds.add(id);
+    }
+    return false;
+  });
+
+  return {
+    items: remainingItems,
+    updatedItems: Array.from(updated),
+    removedIds,
+    orphanedItems,
+  };
+}
+
+export function rewriteOutboxItemId(
+  item: OutboxItem,
+  tempId: string,
+  serverId: string
+): OutboxItem {
+  return {
+    ...item,
+    url: replaceIdInUrl(item.url, tempId, serverId),
+    payload: replaceIdInValue(item.payload, tempId, serverId),
+  };
+}
+
+// Later writes to a record were queued against the version before an earlier
+// queued write landed, so their If-Match and body version move up with it.
+export function rewriteOutboxItemVersion(
+  item: OutboxItem,
+  resourceUrl: string,
+  version: number
+): OutboxItem {
+  if (item.method === HTTP_METHODS.POST || getResourceUrl(item) !== resourceUrl) {
+    return item;
+  }
+  const hasVersion = isPlainObject(item.payload) && item.payload.version !== undefined;
+  return {
+    ...item,
+    ifMatch: item.ifMatch ? createEtag(version) : item.ifMatch,
+    payload: hasVersion ? { ...item.payload, version } : item.payload,
+  };
+}
+
+function getParentUrl(url: string): string {
+  return url.substring(0, url.lastIndexOf('/'));
+}
+
+export function hasPendingMutations(collectionUrl: string, outboxItems: OutboxItem[]): boolean {
+  return outboxItems.some(function (item) {
+    return item.url === collectionUrl || getParentUrl(item.url) === collectionUrl;
+  });
+}
+
+// Replays queued mutations on top of a cached collection so offline reads
+// reflect local writes. Touched entities are flagged with `pending: true`.
+export function applyPendingMutations(
+  collectionUrl: string,
+  entities: any[],
+  outboxItems: OutboxItem[]
+): any[] {
+  let result = entities.slice();
+
+  outboxItems.forEach(function (item) {
+    if (item.method === HTTP_METHODS.POST && item.url === collectionUrl) {
+      if (item.payload && item.payload.id) {
+        result.unshift({ timestamp: item.timestamp, ...item.payload, pending: true });
+      }
+      return;
+    }
+
+    if (getParentUrl(item.url) !== collectionUrl) {
+      return;
+    }
+
+    const id = item.url.split('/').pop();
+
+    if (isUpdateMethod(item.method) && isPlainObject(item.payload)) {
+      result = result.map(function (entity) {
+        return entity.id === id ? { ...entity, ...item.payload, pending: true } : entity;
+      });
+    } else if (item.method === HTTP_METHODS.DELETE) {
+      result = result.filter(function (entity) {
+        return entity.id !== id;
+      });
+    }
+  });
+
+  return result;
+}
+
+// Returns the outbox ids with `id` moved one place up (-1) or down (1), or null
+// when it cannot move. Two writes to the same record are never swapped, since
+// replaying them out of order would change the result.
+export function moveOutboxItem(items: OutboxItem[], id: number, offset: -1 | 1): number[] | null {
+  const index = items.findIndex(function (item) {
+    return item.id === id;
+  });
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= items.length) {
+    return null;
+  }
+
+  const resourceUrl = getResourceUrl(items[index]);
+  if (resourceUrl && resourceUrl === getResourceUrl(items[target])) {
+    return null;
+  }
+
+  const ids = items.map(function (item) {
+    return item.id!;
+  });
+  ids[index] = ids[target];
+  ids[target] = id;
+  return ids;
+}
+
+export const PAYLOAD_PREVIEW_LENGTH = 120;
+
+function getBase64Size(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+// One-line summary of a queued body. Binary bodies are described rather than decoded.
+export function getPayloadPreview(
+  item: OutboxItem,
+  maxLength: number = PAYLOAD_PREVIEW_LENGTH
+): string {
+  const payload = item.payload;
+  let preview: string;
+
+  switch (item.bodyType) {
+    case 'none':
+      preview = '';
+      break;
+    case 'text':
+    case 'url-search-params':
+      preview = String(payload);
+      break;
+    case 'blob':
+      preview = `[${payload.type || 'blob'}, ${getBase64Size(payload.base64)} bytes]`;
+      break;
+    case 'arraybuffer':
+      preview = `[binary, ${getBase64Size(payload)} bytes]`;
+      break;
+    case 'form-data':
+      preview = `[form data: ${payload
+        .map(function (entry: [string, any]) {
+          return entry[0];
+        })
+        .join(', ')}]`;
+      break;
+    default:
+      preview = payload === undefined || payload === null ? '' : JSON.stringify(payload);
+  }
+
+  return preview.length > maxLength ? preview.slice(0, maxLength - 1) + '…' : preview;
+}
+
+export interface OutboxExport {
+  exportedAt: string;
+  count: number;
+  items: OutboxItem[];
+}
+
+// Credentials are never written to an export that gets attached to a ticket.
+const REDACTED_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+export function createOutboxExport(items: OutboxItem[], exportedAt: number): OutboxExport {
+  return {
+    exportedAt: new Date(exportedAt).toISOString(),
+    count: items.length,
+    items: items.map(function (item) {
+      if (!item.headers) {
+        return item;
+      }
+      const headers: Record<string, string[]> = {};
+      Object.keys(item.headers).forEach(function (name) {
+        headers[name] = REDACTED_HEADERS.includes(name.toLowerCase())
+          ? ['[redacted]']
+          : item.headers![name];
+      });
+      return { ...item, headers };
+    }),
+  };
+}
@@ -0,0 +1,136 @@
+import { HttpParams } from '@angular/common/http';
+import { OutboxItem } from '../models';
+import { SESSION_NOTES_ENTITY } from './entity.utils';
+import {
+  MAX_PAGE_SIZE,
+  applyPendingMutationsToPage,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  isAfterCursor,
+  matchesRecordQuery,
+  parseRecordQuery,
+} from './query.utils';
+
+function params(values: Record<string, string>): HttpParams {
+  return new HttpParams({ fromObject: values });
+}
+
+const note = {
+  id: '1',
+  clientName: 'Ann Lee',
+  note: 'Assisted with medication and a short walk',
+  shiftDate: '2026-03-04',
+  timestamp: 10,
+};
+
+describe('parseRecordQuery', () => {
+  it('should order by the ranged field when no sort is given', () => {
+    const query = parseRecordQuery(SESSION_NOTES_ENTITY, params({ from: '2026-03-01' }));
+
+    expect(query.orderBy).toBe('shiftDate');
+    expect(query.direction).toBe('desc');
+    expect(query.range).toEqual({ field: 'shiftDate', from: '2026-03-01', to: undefined });
+  });
+
+  it('should only accept filters declared on the entity and clamp the page size', () => {
+    const query = parseRecordQuery(
+      SESSION_NOTES_ENTITY,
+      params({ clientName: 'ann lee', note: 'x', limit: '5000', order: 'asc' })
+    );
+
+    expect(query.orderBy).toBe('timestamp');
+    expect(query.direction).toBe('asc');
+    expect(query.equals).toEqual({ clientName: 'ann lee' });
+    expect(query.limit).toBe(MAX_PAGE_SIZE);
+  });
+});
+
+describe('matchesRecordQuery', () => {
+  it('should match filters case-insensitively and require every search term', () => {
+    const base = parseRecordQuery(SESSION_NOTES_ENTITY, params({}));
+
+    expect(
+      matchesRecordQuery(SESSION_NOTES_ENTITY, note, { ...base, equals: { clientName: 'ANN LEE' } })
+    ).toBe(true);
+    expect(matchesRecordQuery(SESSION_NOTES_ENTITY, note, { ...base, search: 'walk MED' })).toBe(
+      true
+    );
+    expect(matchesRecordQuery(SESSION_NOTES_ENTITY, note, { ...base, search: 'walk lunch' })).toBe(
+      false
+    );
+  });
+
+  it('should apply inclusive range bounds', () => {
+    const inRange = parseRecordQuery(
+      SESSION_NOTES_ENTITY,
+      params({ from: '2026-03-04', to: '2026-03-04' })
+    );
+    const outOfRange = parseRecordQuery(SESSION_NOTES_ENTITY, params({ from: '2026-03-05' }));
+
+    expect(matchesRecordQuery(SESSION_NOTES_ENTITY, note, inRange)).toBe(true);
+    expect(matchesRecordQuery(SESSION_NOTES_ENTITY, note, outOfRange)).toBe(false);
+  });
+});
+
+describe('query cursors', () => {
+  it('should round-trip and reject garbage', () => {
+    const cursor = { key: '2026-03-04', id: '7' };
+
+    expect(decodeQueryCursor(encodeQueryCursor(cursor))).toEqual(cursor);
+    expect(decodeQueryCursor('not a cursor')).toBeNull();
+  });
+
+  it('should order equal keys by id in the walk direction', () => {
+    const cursor = { key: 5, id: 'b' };
+
+    expect(isAfterCursor({ key: 5, id: 'c' }, cursor, 'asc')).toBe(true);
+    expect(isAfterCursor({ key: 5, id: 'a' }, cursor, 'asc')).toBe(false);
+    expect(isAfterCursor({ key: 5, id: 'a' }, cursor, 'desc')).toBe(true);
+    expect(isAfterCursor({ key: 6, id: 'a' }, cursor, 'desc')).toBe(false);
+  });
+});
+
+describe('applyPendingMutationsToPage', () => {
+  const outbox: OutboxItem[] = [
+    {
+      id: 1,
+      url: '/api/session-notes',
+      method: 'POST',
+      payload: { id: 'temp-1', clientName: 'Ann Lee', note: 'queued' },
+      timestamp: 20,
+    },
+    {
+      id: 2,
+      url: '/api/session-notes/1',
+      method: 'PUT',
+      payload: { clientName: 'Bob' },
+      timestamp: 21,
+    },
+  ];
+
+  it('should drop records a queued edit moves out of the filter', () => {
+    const query = parseRecordQuery(SESSION_NOTES_ENTITY, params({ clientName: 'Ann Lee' }));
+
+    const page = applyPendingMutationsToPage(
+      SESSION_NOTES_ENTITY,
+      query,
+      { items: [note], nextCursor: null },
+      outbox
+    );
+
+    expect(page.items.map((item) => item.id)).toEqual(['temp-1']);
+  });
+
+  it('should only add queued creates to the first page', () => {
+    const query = parseRecordQuery(SESSION_NOTES_ENTITY, params({ cursor: 'abc' }));
+
+    const page = applyPendingMutationsToPage(
+      SESSION_NOTES_ENTITY,
+      query,
+      { items: [], nextCursor: null },
+      outbox
+    );
+
+    expect(page.items).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+import { HttpParams } from '@angular/common/http';
+import {
+  EntityDefinition,
+  ListQueryParams,
+  OfflineEntity,
+  OutboxItem,
+  QueryPage,
+  RecordQuery,
+  SortDirection,
+} from '../models';
+import { applyPendingMutations } from './outbox.utils';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Position of the last returned record in the index walk.
+export interface QueryCursor {
+  key: string | number;
+  id: string;
+}
+
+export function hasQueryParams(params: HttpParams): boolean {
+  return params.keys().length > 0;
+}
+
+// A range without an explicit sort orders by the ranged field so its index can serve both.
+export function parseRecordQuery(entity: EntityDefinition, params: HttpParams): RecordQuery {
+  const options = entity.query || { filterFields: [], searchFields: [] };
+  const from = params.get('from') || undefined;
+  const to = params.get('to') || undefined;
+  const hasRange = !!options.rangeField && !!(from || to);
+
+  const equals: Record<string, string> = {};
+  options.filterFields.forEach(function (field) {
+    const value = params.get(field);
+    if (value) {
+      equals[field] = value;
+    }
+  });
+
+  return {
+    orderBy: params.get('sort') || (hasRange ? options.rangeField! : 'timestamp'),
+    direction: params.get('order') === 'asc' ? 'asc' : 'desc',
+    range: hasRange ? { field: options.rangeField!, from, to } : undefined,
+    equals,
+    search: (params.get('q') || '').trim() || undefined,
+    limit: parsePageSize(params.get('limit')),
+    cursor: params.get('cursor') || undefined,
+  };
+}
+
+function parsePageSize(value: string | null): number {
+  const size = parseInt(value || '', 10);
+  if (!size || size < 1) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(size, MAX_PAGE_SIZE);
+}
+
+export function toQueryParams(params: ListQueryParams): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.keys(params).forEach(function (key) {
+    const value = params[key];
+    if (value !== undefined && value !== '') {
+      result[key] = String(value);
+    }
+  });
+  return result;
+}
+
+export function findIndexForField(entity: EntityDefinition, field: string): string | null {
+  const indexName = Object.keys(entity.indexes).find(function (name) {
+    return entity.indexes[name] === field;
+  });
+  return indexName || null;
+}
+
+// True when records must be read (and decrypted) before we know whether they
+// match, so the index walk cannot stop at the page size.
+export function needsRecordFilter(query: RecordQuery): boolean {
+  const hasEquals = !!query.equals && Object.keys(query.equals).length > 0;
+  const hasOtherRange = !!query.range && query.range.field !== query.orderBy;
+  return hasEquals || hasOtherRange || !!query.search;
+}
+
+export function matchesRecordQuery(
+  entity: EntityDefinition,
+  record: any,
+  query: RecordQuery
+): boolean {
+  const equals = query.equals || {};
+  const equalsMatch = Object.keys(equals).every(function (field) {
+    return normalize(record[field]) === normalize(equals[field]);
+  });
+  if (!equalsMatch) {
+    return false;
+  }
+
+  if (query.range) {
+    const value = record[query.range.field];
+    if (query.range.from !== undefined && !(value >= query.range.from)) {
+      return false;
+    }
+    if (query.range.to !== undefined && !(value <= query.range.to)) {
+      return false;
+    }
+  }
+
+  return !query.search || matchesSearch(entity, record, query.search);
+}
+
+// Every term has to appear in at least one search field.
+function matchesSearch(entity: EntityDefinition, record: any, search: string): boolean {
+  const fields = entity.query ? entity.query.searchFields : [];
+  const text = fields
+    .map(function (field) {
+      return normalize(record[field]);
+    })
+    .join(' ');
+
+  return normalize(search)
+    .split(/\s+/)
+    .every(function (term) {
+      return text.includes(term);
+    });
+}
+
+function normalize(value: any): string {
+  return value === undefined || value === null ? '' : String(value).toLowerCase();
+}
+
+export function encodeQueryCursor(cursor: QueryCursor): string {
+  return btoa(JSON.stringify([cursor.key, cursor.id]));
+}
+
+export function decodeQueryCursor(value: string): QueryCursor | null {
+  try {
+    const [key, id] = JSON.parse(atob(value));
+    return { key, id };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Index walks order equal keys by primary key, in the same direction as the walk.
+export function isAfterCursor(
+  entry: QueryCursor,
+  cursor: QueryCursor | null,
+  direction: SortDirection
+): boolean {
+  if (!cursor) {
+    return true;
+  }
+
+  const sign = direction === 'asc' ? 1 : -1;
+  const keyOrder = compareKeys(entry.key, cursor.key) * sign;
+  if (keyOrder !== 0) {
+    return keyOrder > 0;
+  }
+  return compareKeys(entry.id, cursor.id) * sign > 0;
+}
+
+function compareKeys(a: string | number, b: string | number): number {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+// The cursor narrows the range so a later page does not re-walk earlier keys.
+export function buildKeyRange(
+  query: RecordQuery,
+  cursor: QueryCursor | null
+): IDBKeyRange | undefined {
+  const range = query.range && query.range.field === query.orderBy ? query.range : undefined;
+  let lower: any = range ? range.from : undefined;
+  let upper: any = range ? range.to : undefined;
+
+  if (cursor && query.direction === 'asc') {
+    lower = cursor.key;
+  } else if (cursor) {
+    upper = cursor.key;
+  }
+
+  if (lower !== undefined && upper !== undefined) {
+    return lower <= upper ? IDBKeyRange.bound(lower, upper) : IDBKeyRange.only(lower);
+  }
+  if (lower !== undefined) {
+    return IDBKeyRange.lowerBound(lower);
+  }
+  if (upper !== undefined) {
+    return IDBKeyRange.upperBound(upper);
+  }
+  return undefined;
+}
+
+// Offline reads run the query locally; queued writes are layered on top and the
+// result re-filtered. Queued creates only have a place on the first page.
+export function applyPendingMutationsToPage<T extends OfflineEntity>(
+  entity: EntityDefinition,
+  query: RecordQuery,
+  page: QueryPage<T>,
+  outboxItems: OutboxItem[]
+): QueryPage<T> {
+  const pageIds = new Set(
+    page.items.map(function (record) {
+      return record.id;
+    })
+  );
+
+  const items = applyPendingMutations(entity.basePath, page.items, outboxItems).filter(
+    function (record) {
+      const isQueuedCreate = !pageIds.has(record.id);
+      return (!isQueuedCreate || !query.cursor) && matchesRecordQuery(entity, record, query);
+    }
+  );
+
+  return { ...page, items };
+}
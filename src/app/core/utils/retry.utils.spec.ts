@@ -0,0 +1,47 @@
+import {
+  DEFAULT_RETRY_CONFIG,
+  RetryConfig,
+  calculateBackoffDelay,
+  hasExceededMaxAttempts,
+} from './retry.utils';
+
+const CONFIG: RetryConfig = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe('calculateBackoffDelay', () => {
+  it('should double the delay with each attempt up to the cap', () => {
+    const delays = [1, 2, 3, 4, 5].map((attempt) =>
+      calculateBackoffDelay(attempt, CONFIG, () => 1)
+    );
+
+    expect(delays).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it('should jitter between half and all of the capped delay', () => {
+    expect(calculateBackoffDelay(3, CONFIG, () => 0)).toBe(2000);
+    expect(calculateBackoffDelay(3, CONFIG, () => 0.5)).toBe(3000);
+    expect(calculateBackoffDelay(10, CONFIG, () => 0)).toBe(2500);
+
+    for (let i = 0; i < 50; i++) {
+      const delay = calculateBackoffDelay(3, CONFIG);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    }
+  });
+
+  it('should treat attempts below one as the first', () => {
+    expect(calculateBackoffDelay(0, CONFIG, () => 1)).toBe(1000);
+  });
+});
+
+describe('hasExceededMaxAttempts', () => {
+  it('should cut off once the attempts reach the maximum', () => {
+    expect(hasExceededMaxAttempts(3, CONFIG)).toBe(false);
+    expect(hasExceededMaxAttempts(4, CONFIG)).toBe(true);
+    expect(hasExceededMaxAttempts(5, CONFIG)).toBe(true);
+  });
+
+  it('should give up after five attempts by default', () => {
+    expect(hasExceededMaxAttempts(4, DEFAULT_RETRY_CONFIG)).toBe(false);
+    expect(hasExceededMaxAttempts(5, DEFAULT_RETRY_CONFIG)).toBe(true);
+  });
+});
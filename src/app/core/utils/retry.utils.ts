@@ -0,0 +1,27 @@
+
+export interface RetryConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000,
+};
+
+export function calculateBackoffDelay(
+  attempt: number,
+  config: RetryConfig,
+  random: () => number = Math.random
+): number {
+  const exponential = config.baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0));
+  const capped = Math.min(exponential, config.maxDelayMs);
+  const half = capped / 2;
+  return Math.round(half + random() * half);
+}
+
+export function hasExceededMaxAttempts(attempts: number, config: RetryConfig): boolean {
+  return attempts >= config.maxAttempts;
+}
@@ -0,0 +1,33 @@
+import { SyncStatus } from '../models';
+import { INITIAL_SYNC_STATUS, describeSyncStatus, getRestingPhase } from './sync-status.utils';
+
+const NOW = 10 * 60 * 1000;
+
+function status(overrides: Partial<SyncStatus>): SyncStatus {
+  return { ...INITIAL_SYNC_STATUS, ...overrides };
+}
+
+describe('describeSyncStatus', () => {
+  it('should summarise the last sync and what is waiting', () => {
+    const text = describeSyncStatus(
+      status({ lastSyncedAt: NOW - 5 * 60 * 1000, pendingCount: 3, conflictCount: 1 }),
+      NOW
+    );
+
+    expect(text).toBe('Last synced 5m ago · 3 pending · 1 to review');
+  });
+
+  it('should lead with the phase when it is not idle', () => {
+    expect(describeSyncStatus(status({ phase: 'paused' }), NOW)).toBe(
+      'Sync paused · Never synced'
+    );
+  });
+});
+
+describe('getRestingPhase', () => {
+  it('should prefer paused over an earlier error', () => {
+    expect(getRestingPhase(true, 'HTTP 503')).toBe('paused');
+    expect(getRestingPhase(false, 'HTTP 503')).toBe('error');
+    expect(getRestingPhase(false, null)).toBe('idle');
+  });
+});
@@ -0,0 +1,52 @@
+import { SyncPhase, SyncStatus } from '../models';
+import { formatAge } from './date.utils';
+
+export const INITIAL_SYNC_STATUS: SyncStatus = {
+  phase: 'idle',
+  totalItems: 0,
+  completedItems: 0,
+  failedItems: 0,
+  currentItem: null,
+  lastSyncedAt: null,
+  lastError: null,
+  pendingCount: 0,
+  conflictCount: 0,
+};
+
+export function isSyncRunning(status: SyncStatus): boolean {
+  return status.phase === 'pushing' || status.phase === 'pulling';
+}
+
+// The phase to show between runs.
+export function getRestingPhase(isPaused: boolean, lastError: string | null): SyncPhase {
+  if (isPaused) {
+    return 'paused';
+  }
+  return lastError ? 'error' : 'idle';
+}
+
+const PHASE_LABELS: Record<SyncPhase, string | null> = {
+  idle: null,
+  pushing: 'Syncing…',
+  pulling: 'Fetching updates…',
+  paused: 'Sync paused',
+  error: 'Last sync failed',
+};
+
+// For example "Last synced 5m ago · 3 pending".
+export function describeSyncStatus(status: SyncStatus, now: number = Date.now()): string {
+  const parts = [
+    status.lastSyncedAt ? `Last synced ${formatAge(status.lastSyncedAt, now)} ago` : 'Never synced',
+  ];
+  const label = PHASE_LABELS[status.phase];
+  if (label) {
+    parts.unshift(label);
+  }
+  if (status.pendingCount > 0) {
+    parts.push(`${status.pendingCount} pending`);
+  }
+  if (status.conflictCount > 0) {
+    parts.push(`${status.conflictCount} to review`);
+  }
+  return parts.join(' · ');
+}
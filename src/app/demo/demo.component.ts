@@ -1,38 +1,57 @@
-import { Component, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectorRef,
+  ElementRef,
+  ViewChild,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { HttpClient } from '@angular/common/http';
-import { Observable, Subscription, interval, firstValueFrom } from 'rxjs';
-import { OfflineDetectionService } from '../core/services/offline-detection.service';
+import { RouterLink } from '@angular/router';
+import { Observable, Subscription, interval } from 'rxjs';
+import {
+  OfflineDetectionService,
+  ConnectivityState,
+} from '../core/services/offline-detection.service';
 import { IndexedDbService } from '../core/services/indexed-db.service';
-import { SessionNote } from '../core/models';
-import { SyncService, SyncStatus } from '../core/services/sync.service';
+import { Attachment, AttachmentRef, SessionNote, SyncStatus } from '../core/models';
+import { SyncService } from '../core/services/sync.service';
+import { SessionNotesRepository } from '../core/services/session-notes.repository';
+import { AttachmentService } from '../core/services/attachment.service';
+import { LoggerService } from '../core/services/logger.service';
+import { getUploadProgress } from '../core/utils/attachment.utils';
+import { describeSyncStatus } from '../core/utils/sync-status.utils';
 import { isFormValid } from '../core/utils/validation.utils';
 import { getTodayDateString, formatTimestamp } from '../core/utils/date.utils';
+import { describeError } from '../core/utils/log.utils';
 
-const API_SESSION_NOTES = '/api/session-notes';
-const POLL_INTERVAL_MS = 2000;
 const SUCCESS_MESSAGE_DURATION_MS = 3000;
+const OBJECT_URL_LIFETIME_MS = 60000;
+const STATUS_REFRESH_MS = 30000;
 
 @Component({
   selector: 'app-demo',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, RouterLink],
   templateUrl: './demo.component.html',
   styleUrl: './demo.component.css',
 })
 export class DemoComponent implements OnInit, OnDestroy {
+  @ViewChild('fileInput') fileInput?: ElementRef<HTMLInputElement>;
+
   isOnline$: Observable<boolean>;
   isOnline = true;
+  connectivityState: ConnectivityState = 'online';
   syncStatus$: Observable<SyncStatus>;
-  syncStatus: SyncStatus = {
-    isSyncing: false,
-    totalItems: 0,
-    completedItems: 0,
-    failedItems: 0,
-  };
+  syncStatus: SyncStatus;
 
   sessionNotes: SessionNote[] = [];
+  conflictCount = 0;
+  // Local upload state, keyed by both temp id and server id.
+  attachments = new Map<string, Attachment>();
+  selectedFiles: File[] = [];
+  attachmentError = '';
 
   formData = {
     clientName: '',
@@ -53,20 +72,22 @@ export class DemoComponent implements OnInit, OnDestroy {
   private subscriptions = new Subscription();
 
   constructor(
-    private http: HttpClient,
+    private sessionNotesRepository: SessionNotesRepository,
     private offlineDetection: OfflineDetectionService,
     private indexedDb: IndexedDbService,
     private syncService: SyncService,
+    private attachmentService: AttachmentService,
+    private logger: LoggerService,
     private cdr: ChangeDetectorRef
   ) {
     this.isOnline$ = this.offlineDetection.isOnline$;
     this.syncStatus$ = this.syncService.syncStatus;
+    this.syncStatus = this.syncService.status;
   }
 
   ngOnInit(): void {
     this.setupSubscriptions();
-    this.loadInitialData();
-    this.startPolling();
+    this.watchData();
   }
 
   private setupSubscriptions(): void {
@@ -77,82 +98,132 @@ export class DemoComponent implements OnInit, OnDestroy {
       })
     );
 
+    this.subscriptions.add(
+      this.offlineDetection.state$.subscribe(function (state) {
+        self.connectivityState = state;
+      })
+    );
+
     this.subscriptions.add(
       this.syncStatus$.subscribe(function (status) {
         self.handleSyncStatusChange(status);
       })
     );
+
+    // Keeps "last synced 5m ago" current between status changes.
+    this.subscriptions.add(
+      interval(STATUS_REFRESH_MS).subscribe(function () {
+        self.cdr.detectChanges();
+      })
+    );
   }
 
   private handleSyncStatusChange(status: SyncStatus): void {
-    const wasSyncing = this.syncStatus.isSyncing;
     this.syncStatus = status;
-
-    if (wasSyncing && !status.isSyncing) {
-      console.log('✅ [SYNC] Component: Sync completed, reloading data');
-      this.reloadAllData();
-      this.cdr.detectChanges();
-    }
+    this.cdr.detectChanges();
   }
 
-  private reloadAllData(): void {
-    this.loadSessionNotes();
-  }
+  // Both lists update themselves on local writes, sync and changes from other tabs.
+  private watchData(): void {
+    const self = this;
+    this.subscriptions.add(
+      this.sessionNotesRepository.watch().subscribe(function (notes) {
+        self.sessionNotes = notes;
+        self.cdr.detectChanges();
+      })
+    );
 
-  private loadInitialData(): void {
-    this.loadSessionNotes();
-  }
+    this.subscriptions.add(
+      this.indexedDb.watchSyncConflicts().subscribe(function (conflicts) {
+        self.conflictCount = conflicts.length;
+        self.cdr.detectChanges();
+      })
+    );
 
-  private startPolling(): void {}
+    this.subscriptions.add(
+      this.attachmentService.watchAttachments().subscribe(function (attachments) {
+        self.attachments = new Map();
+        attachments.forEach(function (attachment) {
+          self.attachments.set(attachment.id, attachment);
+          if (attachment.serverId) {
+            self.attachments.set(attachment.serverId, attachment);
+          }
+        });
+        self.cdr.detectChanges();
+      })
+    );
+  }
 
   ngOnDestroy(): void {
     this.subscriptions.unsubscribe();
   }
 
-  async loadSessionNotes(): Promise<void> {
-    try {
-      await this.loadSessionNotesFromHttp();
-    } catch (error) {
-      console.error('❌ [COMPONENT] Error loading session notes via HTTP:', error);
-      await this.loadSessionNotesFromIndexedDb();
-    }
-  }
-
-  private async loadSessionNotesFromHttp(): Promise<void> {
-    const notes = await firstValueFrom(this.http.get<SessionNote[]>(API_SESSION_NOTES));
-    this.sessionNotes = notes || [];
-    this.cdr.detectChanges();
-  }
-
-  private async loadSessionNotesFromIndexedDb(): Promise<void> {
-    try {
-      await this.indexedDb.init();
-      const notes = await this.indexedDb.getSessionNotes();
-      this.sessionNotes = notes || [];
-      this.cdr.detectChanges();
-    } catch (dbError) {
-      console.error('❌ [COMPONENT] Error loading from IndexedDB:', dbError);
-      this.sessionNotes = [];
-      this.cdr.detectChanges();
-    }
-  }
-
   async onSubmit(): Promise<void> {
     if (!this.isFormValid()) {
       return;
     }
 
     const formDataToSubmit = { ...this.formData };
+    const files = this.selectedFiles;
+    this.attachmentError = '';
 
     try {
-      await firstValueFrom(this.http.post<SessionNote>(API_SESSION_NOTES, formDataToSubmit));
+      const attachments = await this.storeAttachments(files);
+      await this.sessionNotesRepository.create({ ...formDataToSubmit, attachments });
+
+      // The note waits in the outbox until its files are uploaded.
+      if (attachments.length > 0) {
+        this.syncService.triggerSync();
+      }
 
       this.displaySuccessMessage('Shift Saved Successfully');
       this.resetForm();
-      await this.handlePostSubmit();
+    } catch (error: any) {
+      this.logger.error('NOTES', 'Could not save session note', { error: describeError(error) });
+      this.attachmentError = error.message || '';
+    }
+    this.cdr.detectChanges();
+  }
+
+  private async storeAttachments(files: File[]): Promise<AttachmentRef[]> {
+    const refs: AttachmentRef[] = [];
+    for (const file of files) {
+      refs.push(await this.attachmentService.addAttachment(file));
+    }
+    return refs;
+  }
+
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.selectedFiles = input.files ? Array.from(input.files) : [];
+  }
+
+  getAttachmentStatus(ref: AttachmentRef): string {
+    const attachment = this.attachments.get(ref.id);
+    if (!attachment || attachment.status === 'uploaded') {
+      return '';
+    }
+    if (attachment.status === 'failed') {
+      return 'Upload failed';
+    }
+    if (attachment.lastError) {
+      return 'Upload failed, will retry';
+    }
+    return attachment.status === 'uploading'
+      ? `Uploading ${getUploadProgress(attachment)}%`
+      : 'Waiting to upload';
+  }
+
+  async openAttachment(ref: AttachmentRef): Promise<void> {
+    try {
+      const url = URL.createObjectURL(await this.attachmentService.getBlob(ref));
+      window.open(url, '_blank');
+      setTimeout(function () {
+        URL.revokeObjectURL(url);
+      }, OBJECT_URL_LIFETIME_MS);
     } catch (error) {
-      console.error('❌ [COMPONENT] Error submitting session note:', error);
-      await this.handlePostSubmit();
+      this.logger.error('ATTACH', 'Could not open attachment', { error: describeError(error) });
+      alert(`${ref.name} is not available offline`);
     }
   }
 
@@ -175,11 +246,14 @@ export class DemoComponent implements OnInit, OnDestroy {
       note: '',
       shiftDate: getTodayDateString(),
     };
+    this.selectedFiles = [];
+    if (this.fileInput) {
+      this.fileInput.nativeElement.value = '';
+    }
   }
 
-  private async handlePostSubmit(): Promise<void> {
-    await this.loadSessionNotes();
-    this.cdr.detectChanges();
+  describeSyncStatus(): string {
+    return describeSyncStatus(this.syncStatus);
   }
 
   formatTimestamp(timestamp: number): string {
@@ -217,10 +291,9 @@ export class DemoComponent implements OnInit, OnDestroy {
       await this.updateSessionNote();
       this.displaySuccessMessage('Note Updated Successfully');
       this.cancelEdit();
-      await this.loadSessionNotes();
       this.cdr.detectChanges();
     } catch (error) {
-      console.error('❌ [COMPONENT] Error updating session note:', error);
+      this.logger.error('NOTES', 'Could not update session note', { error: describeError(error) });
       this.cdr.detectChanges();
     }
   }
@@ -230,13 +303,11 @@ export class DemoComponent implements OnInit, OnDestroy {
   }
 
   private async updateSessionNote(): Promise<void> {
-    await firstValueFrom(
-      this.http.put<SessionNote>(`${API_SESSION_NOTES}/${this.editingNote!.id}`, {
-        clientName: this.editFormData.clientName,
-        note: this.editFormData.note,
-        shiftDate: this.editFormData.shiftDate,
-      })
-    );
+    await this.sessionNotesRepository.update(this.editingNote!, {
+      clientName: this.editFormData.clientName,
+      note: this.editFormData.note,
+      shiftDate: this.editFormData.shiftDate,
+    });
   }
 
   async deleteNote(note: SessionNote): Promise<void> {
@@ -244,36 +315,16 @@ export class DemoComponent implements OnInit, OnDestroy {
       return;
     }
 
-    const noteIdToDelete = note.id;
-
     try {
-      this.removeNoteFromLocalList(noteIdToDelete);
-
-      await firstValueFrom(this.http.delete(`${API_SESSION_NOTES}/${noteIdToDelete}`));
-
+      await this.sessionNotesRepository.remove(note);
       this.displaySuccessMessage('Note Deleted Successfully');
-      await this.handlePostDelete();
     } catch (error) {
-      console.error('❌ [COMPONENT] Error deleting session note:', error);
-      await this.loadSessionNotes();
-      this.cdr.detectChanges();
+      this.logger.error('NOTES', 'Could not delete session note', { error: describeError(error) });
     }
+    this.cdr.detectChanges();
   }
 
   private confirmDelete(note: SessionNote): boolean {
     return confirm(`Are you sure you want to delete the note for ${note.clientName}?`);
   }
-
-  private removeNoteFromLocalList(noteId: string): void {
-    const self = this;
-    this.sessionNotes = this.sessionNotes.filter(function (n) {
-      return n.id !== noteId;
-    });
-    this.cdr.detectChanges();
-  }
-
-  private async handlePostDelete(): Promise<void> {
-    await this.loadSessionNotes();
-    this.cdr.detectChanges();
-  }
 }
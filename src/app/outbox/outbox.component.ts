@@ -0,0 +1,184 @@
+import { Component, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Subscription, interval } from 'rxjs';
+import { OutboxItem } from '../core/models';
+import { IndexedDbService } from '../core/services/indexed-db.service';
+import { SyncService } from '../core/services/sync.service';
+import { LogBufferService, LoggerService } from '../core/services/logger.service';
+import { createOutboxExport, getPayloadPreview, moveOutboxItem } from '../core/utils/outbox.utils';
+import { formatAge, formatTimestamp } from '../core/utils/date.utils';
+import { computeLogMetrics, describeError, describeLogMetrics } from '../core/utils/log.utils';
+
+const AGE_REFRESH_MS = 15000;
+
+@Component({
+  selector: 'app-outbox',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './outbox.component.html',
+  styleUrl: './outbox.component.css',
+})
+export class OutboxComponent implements OnInit, OnDestroy {
+  items: OutboxItem[] = [];
+  isPaused = false;
+  now = Date.now();
+  logCount = 0;
+  diagnostics = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private indexedDb: IndexedDbService,
+    private syncService: SyncService,
+    private logBuffer: LogBufferService,
+    private logger: LoggerService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    const self = this;
+    this.subscriptions.add(
+      this.indexedDb.watchOutbox().subscribe(function (items) {
+        self.items = items;
+        self.now = Date.now();
+        self.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.add(
+      this.syncService.watchPaused().subscribe(function (isPaused) {
+        self.isPaused = isPaused;
+        self.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.add(
+      this.logBuffer.watchEntries().subscribe(function (entries) {
+        self.logCount = entries.length;
+        self.diagnostics = describeLogMetrics(computeLogMetrics(entries));
+        self.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.add(
+      interval(AGE_REFRESH_MS).subscribe(function () {
+        self.now = Date.now();
+        self.cdr.detectChanges();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  async togglePause(): Promise<void> {
+    try {
+      if (this.isPaused) {
+        await this.syncService.resume();
+      } else {
+        await this.syncService.pause();
+      }
+    } catch (error) {
+      this.logger.error('OUTBOX', 'Could not change the pause state', {
+        error: describeError(error),
+      });
+    }
+  }
+
+  async retry(item: OutboxItem): Promise<void> {
+    try {
+      await this.syncService.retryItem(item);
+    } catch (error) {
+      this.logger.error('OUTBOX', 'Could not retry item', { error: describeError(error) });
+    }
+  }
+
+  async discard(item: OutboxItem): Promise<void> {
+    if (!item.id || !confirm(`Discard ${item.method} ${item.url}? This change will be lost.`)) {
+      return;
+    }
+
+    try {
+      await this.indexedDb.removeFromOutbox(item.id);
+      this.logger.warn('OUTBOX', 'Discarded by user', { method: item.method, url: item.url });
+    } catch (error) {
+      this.logger.error('OUTBOX', 'Could not discard item', { error: describeError(error) });
+    }
+  }
+
+  canMove(item: OutboxItem, offset: -1 | 1): boolean {
+    return !!item.id && moveOutboxItem(this.items, item.id, offset) !== null;
+  }
+
+  async move(item: OutboxItem, offset: -1 | 1): Promise<void> {
+    const orderedIds = item.id ? moveOutboxItem(this.items, item.id, offset) : null;
+    if (!orderedIds) {
+      return;
+    }
+
+    try {
+      await this.indexedDb.reorderOutbox(orderedIds);
+    } catch (error) {
+      this.logger.error('OUTBOX', 'Could not reorder the queue', { error: describeError(error) });
+    }
+  }
+
+  exportQueue(): void {
+    const exported = createOutboxExport(this.items, Date.now());
+    this.download(exported, `outbox-${exported.exportedAt.replace(/[:.]/g, '-')}.json`);
+  }
+
+  async exportLog(): Promise<void> {
+    try {
+      const exported = await this.logBuffer.exportLog();
+      this.download(exported, `sync-log-${exported.exportedAt.replace(/[:.]/g, '-')}.json`);
+    } catch (error) {
+      this.logger.error('OUTBOX', 'Could not export the log', { error: describeError(error) });
+    }
+  }
+
+  async clearLog(): Promise<void> {
+    if (!confirm('Clear the diagnostic log on this device?')) {
+      return;
+    }
+
+    try {
+      await this.logBuffer.clear();
+    } catch (error) {
+      this.logger.error('OUTBOX', 'Could not clear the log', { error: describeError(error) });
+    }
+  }
+
+  private download(value: any, fileName: string): void {
+    const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  isWaiting(item: OutboxItem): boolean {
+    return !!item.nextRetryAt && item.nextRetryAt > this.now;
+  }
+
+  getPreview(item: OutboxItem): string {
+    return getPayloadPreview(item);
+  }
+
+  formatAge(timestamp: number): string {
+    return formatAge(timestamp, this.now);
+  }
+
+  formatTimestamp(timestamp: number): string {
+    return formatTimestamp(timestamp);
+  }
+
+  trackByItemId(index: number, item: OutboxItem): number | undefined {
+    return item.id;
+  }
+}
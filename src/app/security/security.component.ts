@@ -0,0 +1,126 @@
+import { Component, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { BackgroundSyncService } from '../core/services/background-sync.service';
+import { EncryptionService } from '../core/services/encryption.service';
+import { IndexedDbService } from '../core/services/indexed-db.service';
+import { LoggerService } from '../core/services/logger.service';
+import { UserContextService } from '../core/services/user-context.service';
+import { describeError } from '../core/utils/log.utils';
+
+@Component({
+  selector: 'app-security',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './security.component.html',
+  styleUrl: './security.component.css',
+})
+export class SecurityComponent {
+  currentPassphrase = '';
+  newPassphrase = '';
+  confirmPassphrase = '';
+  userId = '';
+  tenantId = '';
+  message = '';
+  errorMessage = '';
+  isBusy = false;
+
+  constructor(
+    private encryption: EncryptionService,
+    private indexedDb: IndexedDbService,
+    private userContext: UserContextService,
+    private backgroundSync: BackgroundSyncService,
+    private logger: LoggerService,
+    private cdr: ChangeDetectorRef
+  ) {
+    const user = this.userContext.currentUser;
+    this.userId = user ? user.userId : '';
+    this.tenantId = user && user.tenantId ? user.tenantId : '';
+  }
+
+  get isEnabled(): boolean {
+    return this.encryption.isEnabled;
+  }
+
+  get reminderPermission(): NotificationPermission | null {
+    return this.backgroundSync.unlockReminderPermission;
+  }
+
+  get hasUser(): boolean {
+    return !!this.userContext.currentUser;
+  }
+
+  async switchUser(): Promise<void> {
+    const self = this;
+    const user = { userId: this.userId.trim(), tenantId: this.tenantId.trim() || undefined };
+    await this.run('Signed in as ' + user.userId, 'Could not switch user', function () {
+      return self.userContext.setUser(user);
+    });
+  }
+
+  async signOut(): Promise<void> {
+    const self = this;
+    await this.run('Signed out', 'Could not sign out', function () {
+      return self.userContext.signOut();
+    });
+    this.userId = '';
+    this.tenantId = '';
+    this.cdr.detectChanges();
+  }
+
+  async changePassphrase(): Promise<void> {
+    if (this.newPassphrase !== this.confirmPassphrase) {
+      this.showResult('', 'New PINs do not match');
+      return;
+    }
+
+    const self = this;
+    await this.run('PIN changed', 'Current PIN is incorrect', function () {
+      return self.encryption.changePassphrase(self.currentPassphrase, self.newPassphrase);
+    });
+    this.currentPassphrase = '';
+    this.newPassphrase = '';
+    this.confirmPassphrase = '';
+    this.cdr.detectChanges();
+  }
+
+  async rotateKey(): Promise<void> {
+    const self = this;
+    await this.run('Encryption key rotated', 'Key rotation failed', function () {
+      return self.indexedDb.rotateEncryptionKey();
+    });
+  }
+
+  async enableReminders(): Promise<void> {
+    const granted = await this.backgroundSync.enableUnlockReminders();
+    this.showResult(
+      granted ? 'Reminders turned on' : '',
+      granted ? '' : 'Notifications were not allowed'
+    );
+  }
+
+  lock(): void {
+    this.encryption.lock();
+  }
+
+  private async run(success: string, failure: string, task: () => Promise<void>): Promise<void> {
+    this.isBusy = true;
+    this.showResult('', '');
+    try {
+      await task();
+      this.showResult(success, '');
+    } catch (error) {
+      this.logger.error('SECURITY', failure, { error: describeError(error) });
+      this.showResult('', failure);
+    }
+    this.isBusy = false;
+    this.cdr.detectChanges();
+  }
+
+  private showResult(message: string, errorMessage: string): void {
+    this.message = message;
+    this.errorMessage = errorMessage;
+    this.cdr.detectChanges();
+  }
+}
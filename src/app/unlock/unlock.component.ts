@@ -0,0 +1,82 @@
+import { Component, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { EncryptionService } from '../core/services/encryption.service';
+import { LoggerService } from '../core/services/logger.service';
+import { describeError } from '../core/utils/log.utils';
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+@Component({
+  selector: 'app-unlock',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './unlock.component.html',
+  styleUrl: './unlock.component.css',
+})
+export class UnlockComponent {
+  passphrase = '';
+  confirmPassphrase = '';
+  errorMessage = '';
+  wasWiped = false;
+  isBusy = false;
+
+  constructor(
+    private encryption: EncryptionService,
+    private logger: LoggerService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  get isSetup(): boolean {
+    return this.encryption.state === 'setup-required';
+  }
+
+  async onSubmit(): Promise<void> {
+    if (this.isBusy) {
+      return;
+    }
+
+    this.errorMessage = '';
+    this.isBusy = true;
+    try {
+      if (this.isSetup) {
+        await this.createPassphrase();
+      } else {
+        await this.unlock();
+      }
+    } catch (error) {
+      this.logger.error('CRYPTO', 'Unlock failed', { error: describeError(error) });
+      this.errorMessage = 'Something went wrong. Please try again.';
+    }
+    this.isBusy = false;
+    this.passphrase = '';
+    this.confirmPassphrase = '';
+    this.cdr.detectChanges();
+  }
+
+  private async createPassphrase(): Promise<void> {
+    if (this.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      this.errorMessage = `PIN must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+      return;
+    }
+    if (this.passphrase !== this.confirmPassphrase) {
+      this.errorMessage = 'PINs do not match';
+      return;
+    }
+
+    await this.encryption.setup(this.passphrase);
+    this.wasWiped = false;
+  }
+
+  private async unlock(): Promise<void> {
+    const result = await this.encryption.unlock(this.passphrase);
+    if (result.wiped) {
+      this.wasWiped = true;
+      this.errorMessage = 'Too many failed attempts. Local data has been erased.';
+      return;
+    }
+    if (!result.unlocked) {
+      this.errorMessage = `Incorrect PIN. ${result.remainingAttempts} attempt(s) left.`;
+    }
+  }
+}